@@ -0,0 +1,109 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { assetManifest } from 'virtual:asset-manifest';
+import { activeEvent } from './event-config.ts';
+import { parseStallId } from './stall-id.ts';
+
+/** A stall image URL, plus a local copy to fall back to if the CDN fails. */
+export interface ResolvedImage {
+  src: string;
+  fallbackSrc?: string;
+}
+
+/** An image file in an asset directory and the tables named in its file name. */
+interface IndexedImage {
+  file: string;
+  memberIds: string[];
+}
+
+// Built on first use, per asset directory.
+const imageIndexes = new Map<string, Map<string, IndexedImage[]>>();
+
+/**
+ * Indexes the images of an asset directory by every table ID in their names, so that
+ * both `K61.jpg` and `K61K62.jpg` are found from "K61". Files whose names aren't
+ * stall IDs (e.g. "I27 [conflicted].jpg") are skipped.
+ * @param localDir The asset directory, e.g. "assets/2025/".
+ */
+function getImageIndex(localDir: string): Map<string, IndexedImage[]> {
+  let index = imageIndexes.get(localDir);
+  if (index) return index;
+
+  index = new Map();
+  (assetManifest[localDir] ?? []).forEach((file) => {
+    const parsedId = parseStallId(file.replace(/\.[^.]+$/, ''));
+    if (!parsedId) return;
+    const image = { file, memberIds: parsedId.memberIds };
+    parsedId.memberIds.forEach((memberId) => {
+      if (!index!.has(memberId)) index!.set(memberId, []);
+      index!.get(memberId)!.push(image);
+    });
+  });
+  imageIndexes.set(localDir, index);
+  return index;
+}
+
+/**
+ * Finds the official image of a stall in the asset manifest. An image naming exactly
+ * the stall's tables wins; otherwise any image naming its primary table is used.
+ * @param localDir The asset directory, e.g. "assets/2025/".
+ * @param memberIds The IDs of the stall's tables, primary first.
+ * @returns The image's file name, or undefined if there is none.
+ */
+function findStallImage(
+  localDir: string,
+  memberIds: string[],
+): string | undefined {
+  const candidates = getImageIndex(localDir).get(memberIds[0]) ?? [];
+  const exact = candidates.find(
+    (image) =>
+      image.memberIds.length === memberIds.length &&
+      image.memberIds.every((id) => memberIds.includes(id)),
+  );
+  return (exact ?? candidates[0])?.file;
+}
+
+/**
+ * Resolves a stall's official image. A value from the sheet wins: full URLs are
+ * used as they are, while asset paths (`assets/2025/A01.jpg`) and bare file names
+ * (`A01.jpg`) are served from the event's CDN. When the sheet leaves it blank, the
+ * image is looked up in the asset manifest by the stall's table IDs.
+ * @param sheetValue The `stallImg` value from the sheet.
+ * @param memberIds The IDs of the stall's tables, primary first.
+ * @returns The image URLs, or undefined if the stall has no image.
+ */
+export function resolveStallImage(
+  sheetValue: string | undefined,
+  memberIds: string[],
+): ResolvedImage | undefined {
+  const { assets } = activeEvent;
+  const value = (sheetValue ?? '').trim();
+
+  let localPath: string | undefined;
+  if (/^https?:\/\//i.test(value)) {
+    return { src: value };
+  } else if (value) {
+    const path = value.replace(/^\.?\//, '');
+    if (path.startsWith(assets.localDir)) {
+      localPath = path;
+    } else if (!path.includes('/')) {
+      localPath = `${assets.localDir}${path}`;
+    } else {
+      return { src: value };
+    }
+  } else {
+    const file = findStallImage(assets.localDir, memberIds);
+    if (file) localPath = `${assets.localDir}${file}`;
+  }
+
+  if (!localPath) return undefined;
+  // File names may contain spaces, e.g. "F49 F50.jpg".
+  const encodedPath = encodeURI(localPath);
+  return {
+    src: `${assets.cdnBase}@${assets.version}/${encodedPath}`,
+    fallbackSrc: `${import.meta.env.BASE_URL}${encodedPath}`,
+  };
+}
@@ -0,0 +1,375 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { activeEvent } from './event-config.ts';
+import { computeStallCoords } from './layout-engine.ts';
+import { serpentineRowLayout } from './official-data.ts';
+import type { LocateStall, StallData } from './types.ts';
+
+/** What a drag gesture changes: the row border or the template stall, moved or resized. */
+type DragTarget = 'border' | 'template';
+type DragMode = 'move' | 'resize';
+
+interface DragState {
+  rowId: string;
+  target: DragTarget;
+  mode: DragMode;
+  startX: number;
+  startY: number;
+  /** The row's values when the drag started. */
+  startRow: LocateStall;
+}
+
+/** The state of the calibration editor. */
+interface CalibrationState {
+  /** The working copy of the rows being calibrated. */
+  rows: LocateStall[];
+  isActive: boolean;
+  selectedRowId: string | null;
+  drag: DragState | null;
+}
+
+// The smallest size (in map %) a box can be resized to.
+const MIN_SIZE = 0.2;
+
+/**
+ * Rounds a map percentage to two decimals, the precision used in official-data.ts.
+ * @param value The value to round.
+ */
+function round(value: number): number {
+  return parseFloat(value.toFixed(2));
+}
+
+/**
+ * Sets an element's position and size in map percentages.
+ * @param el The element to position.
+ * @param box The box, in map %.
+ */
+function placeBox(
+  el: HTMLElement,
+  box: { top: number; left: number; width: number; height: number },
+) {
+  el.style.top = `${box.top}%`;
+  el.style.left = `${box.left}%`;
+  el.style.width = `${box.width}%`;
+  el.style.height = `${box.height}%`;
+}
+
+// The layouts official-data.ts shares between rows, printed by name rather than
+// inlined. Keyed by their JSON, since the editor works on a copy of the rows.
+const sharedLayoutNames = new Map([
+  [JSON.stringify(serpentineRowLayout), 'serpentineRowLayout'],
+]);
+
+/**
+ * Returns the name official-data.ts gives an event's row data, e.g.
+ * `nice0816LocateStalls` for the event `nice-0816`.
+ * @param eventId The event's ID.
+ */
+function getRowDataName(eventId: string): string {
+  const camelCased = eventId.replace(
+    /[^A-Za-z0-9]+(.)?/g,
+    (_, next?: string) => (next ? next.toUpperCase() : ''),
+  );
+  return `${camelCased}LocateStalls`;
+}
+
+/**
+ * Serialises a value as a TypeScript literal in the style of official-data.ts:
+ * unquoted keys, single-quoted strings, objects kept on one line when they fit,
+ * and shared layouts referenced by name.
+ * @param value The value to serialise.
+ * @param indent The indentation of the line the value starts on.
+ */
+function toTsLiteral(value: unknown, indent = ''): string {
+  const inner = `${indent}  `;
+  if (Array.isArray(value)) {
+    if (value.length === 0) return '[]';
+    const items = value.map((v) => `${inner}${toTsLiteral(v, inner)},`);
+    return `[\n${items.join('\n')}\n${indent}]`;
+  }
+  if (value && typeof value === 'object') {
+    const sharedName = sharedLayoutNames.get(JSON.stringify(value));
+    if (sharedName) return sharedName;
+    const entries = Object.entries(value).filter(([, v]) => v !== undefined);
+    const key = (k: string) => (/^[A-Za-z_$][\w$]*$/.test(k) ? k : `'${k}'`);
+    const oneLine = `{ ${entries
+      .map(([k, v]) => `${key(k)}: ${toTsLiteral(v, inner)}`)
+      .join(', ')} }`;
+    if (!oneLine.includes('\n') && inner.length + oneLine.length <= 80) {
+      return oneLine;
+    }
+    const lines = entries.map(
+      ([k, v]) => `${inner}${key(k)}: ${toTsLiteral(v, inner)},`,
+    );
+    return `{\n${lines.join('\n')}\n${indent}}`;
+  }
+  if (typeof value === 'string') return `'${value.replace(/'/g, "\\'")}'`;
+  return String(value);
+}
+
+/**
+ * Creates the layout calibration editor shown in debug mode. While calibrating, every
+ * row's border and template stall can be dragged and resized on the map, and the boxes
+ * of all loaded stalls are recomputed live from the edited rows. The result can be
+ * exported as TypeScript or JSON to paste back into the event's row data.
+ * @param mapContainer The map container; the toolbar is inserted right before it.
+ * @param sourceRows The rows currently used by the map.
+ * @param getStalls Returns the currently loaded stalls, used for the live preview.
+ */
+export function createCalibrationEditor(
+  mapContainer: HTMLElement,
+  sourceRows: LocateStall[],
+  getStalls: () => StallData[],
+) {
+  const state: CalibrationState = {
+    rows: structuredClone(sourceRows),
+    isActive: false,
+    selectedRowId: null,
+    drag: null,
+  };
+
+  // --- Toolbar ---
+  const toolbar = document.createElement('div');
+  toolbar.id = 'calibration-toolbar';
+
+  const toggleBtn = document.createElement('button');
+  toggleBtn.textContent = '開始校準';
+  const exportTsBtn = document.createElement('button');
+  exportTsBtn.textContent = '匯出 TypeScript';
+  const exportJsonBtn = document.createElement('button');
+  exportJsonBtn.textContent = '匯出 JSON';
+  const resetBtn = document.createElement('button');
+  resetBtn.textContent = '還原';
+  const readout = document.createElement('span');
+  readout.className = 'calibration-readout';
+  const output = document.createElement('textarea');
+  output.className = 'calibration-output hidden';
+  output.readOnly = true;
+  output.rows = 12;
+
+  toolbar.append(toggleBtn, exportTsBtn, exportJsonBtn, resetBtn, readout);
+  mapContainer.before(toolbar, output);
+
+  // --- Map overlay ---
+  const layer = document.createElement('div');
+  layer.className = 'calibration-layer';
+
+  /**
+   * Creates a draggable box with a resize handle in its bottom-right corner.
+   * @param className The box's class.
+   * @param rowId The row the box belongs to.
+   * @param target Which part of the row the box edits.
+   */
+  const createHandleBox = (
+    className: string,
+    rowId: string,
+    target: DragTarget,
+  ) => {
+    const box = document.createElement('div');
+    box.className = className;
+    box.dataset.rowId = rowId;
+    box.dataset.target = target;
+    const handle = document.createElement('div');
+    handle.className = 'calibration-handle';
+    box.appendChild(handle);
+    return box;
+  };
+
+  /**
+   * (Re-)renders a row's border, template and the preview boxes of its stalls.
+   * @param row The row to render.
+   */
+  const renderRow = (row: LocateStall) => {
+    layer
+      .querySelectorAll(`[data-row-id="${row.id}"]`)
+      .forEach((el) => el.remove());
+    const isSelected = row.id === state.selectedRowId;
+
+    const borderEl = createHandleBox('calibration-border', row.id, 'border');
+    borderEl.classList.toggle('is-selected', isSelected);
+    placeBox(borderEl, {
+      top: row.border.top,
+      left: row.border.left,
+      width: round(row.border.right - row.border.left),
+      height: round(row.border.bottom - row.border.top),
+    });
+    const label = document.createElement('span');
+    label.className = 'calibration-label';
+    label.textContent = row.id;
+    borderEl.appendChild(label);
+
+    const previews = getStalls()
+      .filter((stall) => stall.id.substring(0, 1) === row.id)
+      .map((stall) => {
+        const preview = document.createElement('div');
+        preview.className = 'calibration-preview';
+        preview.dataset.rowId = row.id;
+        placeBox(
+          preview,
+          computeStallCoords(row, stall.num, stall.stallCnt).numericCoords,
+        );
+        return preview;
+      });
+
+    const templateEl = createHandleBox(
+      'calibration-template',
+      row.id,
+      'template',
+    );
+    templateEl.classList.toggle('is-selected', isSelected);
+    placeBox(templateEl, row.coords);
+
+    // Previews go underneath, the template on top so it stays grabbable.
+    layer.append(borderEl, ...previews, templateEl);
+  };
+
+  /** Shows the selected row's values in the toolbar. */
+  const updateReadout = () => {
+    const row = state.rows.find((r) => r.id === state.selectedRowId);
+    if (!row) {
+      readout.textContent = '拖曳框線移動，拖曳右下角調整大小。';
+      return;
+    }
+    const { coords: c, border: b } = row;
+    readout.textContent =
+      `${row.id}｜coords: top ${c.top}, left ${c.left}, width ${c.width}, height ${c.height}` +
+      `｜border: top ${b.top}, left ${b.left}, bottom ${b.bottom}, right ${b.right}`;
+  };
+
+  /** Re-renders every row. */
+  const renderAll = () => {
+    layer.replaceChildren();
+    state.rows.forEach(renderRow);
+    updateReadout();
+  };
+
+  /**
+   * Applies the current drag to the row being edited.
+   * @param e The pointer event.
+   */
+  const applyDrag = (e: PointerEvent) => {
+    const { drag } = state;
+    if (!drag) return;
+    const row = state.rows.find((r) => r.id === drag.rowId);
+    if (!row) return;
+
+    // Convert the pointer movement to map percentages.
+    const rect = layer.getBoundingClientRect();
+    const dx = ((e.clientX - drag.startX) / rect.width) * 100;
+    const dy = ((e.clientY - drag.startY) / rect.height) * 100;
+    const { border: b, coords: c } = drag.startRow;
+
+    if (drag.target === 'border' && drag.mode === 'move') {
+      row.border = {
+        top: round(b.top + dy),
+        left: round(b.left + dx),
+        bottom: round(b.bottom + dy),
+        right: round(b.right + dx),
+      };
+    } else if (drag.target === 'border') {
+      row.border = {
+        ...b,
+        bottom: round(Math.max(b.bottom + dy, b.top + MIN_SIZE)),
+        right: round(Math.max(b.right + dx, b.left + MIN_SIZE)),
+      };
+    } else if (drag.mode === 'move') {
+      row.coords = { ...c, top: round(c.top + dy), left: round(c.left + dx) };
+    } else {
+      row.coords = {
+        ...c,
+        width: round(Math.max(c.width + dx, MIN_SIZE)),
+        height: round(Math.max(c.height + dy, MIN_SIZE)),
+      };
+    }
+
+    renderRow(row);
+    updateReadout();
+  };
+
+  layer.addEventListener('pointerdown', (e) => {
+    const target = e.target as HTMLElement;
+    const box = target.closest('[data-target]') as HTMLElement | null;
+    if (!box?.dataset.rowId) return;
+    const row = state.rows.find((r) => r.id === box.dataset.rowId);
+    if (!row) return;
+
+    e.preventDefault();
+    e.stopPropagation();
+    layer.setPointerCapture(e.pointerId);
+    state.drag = {
+      rowId: row.id,
+      target: box.dataset.target as DragTarget,
+      mode: target.classList.contains('calibration-handle') ? 'resize' : 'move',
+      startX: e.clientX,
+      startY: e.clientY,
+      startRow: structuredClone(row),
+    };
+
+    const previousId = state.selectedRowId;
+    state.selectedRowId = row.id;
+    const previousRow = state.rows.find((r) => r.id === previousId);
+    if (previousRow && previousId !== row.id) renderRow(previousRow);
+    renderRow(row);
+    updateReadout();
+  });
+  layer.addEventListener('pointermove', applyDrag);
+  const endDrag = (e: PointerEvent) => {
+    if (!state.drag) return;
+    applyDrag(e);
+    state.drag = null;
+    layer.releasePointerCapture(e.pointerId);
+  };
+  layer.addEventListener('pointerup', endDrag);
+  layer.addEventListener('pointercancel', endDrag);
+  // Keep clicks from reaching the map's stall handlers while calibrating.
+  layer.addEventListener('click', (e) => e.stopPropagation());
+
+  // --- Toolbar actions ---
+  toggleBtn.addEventListener('click', () => {
+    state.isActive = !state.isActive;
+    toggleBtn.textContent = state.isActive ? '結束校準' : '開始校準';
+    toggleBtn.setAttribute('aria-pressed', String(state.isActive));
+    mapContainer.classList.toggle('calibrating', state.isActive);
+    if (state.isActive) {
+      mapContainer.appendChild(layer);
+      renderAll();
+    } else {
+      layer.remove();
+      readout.textContent = '';
+    }
+  });
+
+  /**
+   * Shows the exported rows in the output box and copies them to the clipboard.
+   * @param text The exported text.
+   */
+  const showExport = async (text: string) => {
+    output.value = text;
+    output.classList.remove('hidden');
+    output.select();
+    try {
+      await navigator.clipboard.writeText(text);
+      readout.textContent = '已複製到剪貼簿。';
+    } catch {
+      readout.textContent = '無法存取剪貼簿，請手動複製。';
+    }
+  };
+
+  exportTsBtn.addEventListener('click', () => {
+    const name = getRowDataName(activeEvent.id);
+    showExport(
+      `export const ${name}: LocateStall[] = ${toTsLiteral(state.rows)};\n`,
+    );
+  });
+  exportJsonBtn.addEventListener('click', () => {
+    showExport(`${JSON.stringify(state.rows, null, 2)}\n`);
+  });
+  resetBtn.addEventListener('click', () => {
+    state.rows = structuredClone(sourceRows);
+    state.selectedRowId = null;
+    if (state.isActive) renderAll();
+  });
+}
@@ -0,0 +1,220 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/** A single parsed CSV record. */
+export interface CsvRow {
+  /** The field values of the record, in column order. */
+  values: string[];
+  /** The 1-based physical line on which the record starts. */
+  line: number;
+}
+
+/** Describes a problem found in malformed CSV input. */
+export interface CsvIssue {
+  /** The 1-based physical line of the problem. */
+  line: number;
+  /** The 1-based column (character offset within the line) of the problem. */
+  column: number;
+  /** A human readable description of the problem. */
+  message: string;
+}
+
+/** The controller object returned by createCsvParser. */
+export interface CsvParser {
+  /** Feeds the next chunk of text into the parser. Complete records are emitted immediately. */
+  push: (chunk: string) => void;
+  /** Flushes any pending record and returns every issue found in the input. */
+  end: () => CsvIssue[];
+}
+
+/**
+ * Parser states. A field is either quoted or unquoted; a quote seen inside a
+ * quoted field is either the first half of an escaped quote ("") or its end.
+ */
+type ParserState = 'fieldStart' | 'unquoted' | 'quoted' | 'quoteInQuoted';
+
+/**
+ * Creates an incremental RFC 4180 parser. Text can be pushed in arbitrarily sized
+ * chunks; the state machine keeps track of quotes across chunk boundaries, so quoted
+ * fields may contain commas, escaped quotes ("") and line breaks.
+ * Accepts CRLF, LF and CR-only line endings and strips a leading byte order mark.
+ * Malformed input is recovered from leniently and reported through `end()`.
+ * @param onRow Called once for every complete record, in input order.
+ * @returns A parser controller.
+ */
+export function createCsvParser(onRow: (row: CsvRow) => void): CsvParser {
+  const issues: CsvIssue[] = [];
+
+  let state: ParserState = 'fieldStart';
+  let values: string[] = [];
+  let field = '';
+  let recordLine = 1;
+  let line = 1;
+  let column = 0;
+  let pendingCR = false; // A '\r' was just seen; a following '\n' belongs to it.
+  let isFirstChunk = true;
+  let quoteLine = 0;
+  let quoteColumn = 0;
+
+  const report = (message: string) => {
+    issues.push({ line, column, message });
+  };
+
+  const endField = () => {
+    values.push(field);
+    field = '';
+    state = 'fieldStart';
+  };
+
+  const endRecord = () => {
+    endField();
+    onRow({ values, line: recordLine });
+    values = [];
+  };
+
+  const newLine = () => {
+    line++;
+    column = 0;
+  };
+
+  const push = (chunk: string) => {
+    let start = 0;
+    if (isFirstChunk && chunk.length > 0) {
+      isFirstChunk = false;
+      if (chunk.charCodeAt(0) === 0xfeff) start = 1;
+    }
+
+    for (let i = start; i < chunk.length; i++) {
+      const char = chunk[i];
+
+      // Swallow the '\n' of a CRLF pair; the record was already closed on '\r'.
+      if (pendingCR) {
+        pendingCR = false;
+        if (char === '\n') continue;
+      }
+      column++;
+
+      switch (state) {
+        case 'quoted':
+          if (char === '"') {
+            state = 'quoteInQuoted';
+          } else if (char === '\r' || char === '\n') {
+            // Line breaks inside quotes are part of the value, normalized to '\n'.
+            if (char === '\r') pendingCR = true;
+            field += '\n';
+            newLine();
+          } else {
+            field += char;
+          }
+          break;
+
+        case 'quoteInQuoted':
+          if (char === '"') {
+            // An escaped quote ("") inside a quoted field.
+            field += '"';
+            state = 'quoted';
+            break;
+          }
+          if (char === ',') {
+            endField();
+          } else if (char === '\r' || char === '\n') {
+            if (char === '\r') pendingCR = true;
+            endRecord();
+            newLine();
+            recordLine = line;
+          } else {
+            report(`Unexpected character '${char}' after closing quote.`);
+            field += char;
+            state = 'unquoted';
+          }
+          break;
+
+        case 'fieldStart':
+        case 'unquoted':
+          if (char === ',') {
+            endField();
+          } else if (char === '\r' || char === '\n') {
+            if (char === '\r') pendingCR = true;
+            endRecord();
+            newLine();
+            recordLine = line;
+          } else if (char === '"' && state === 'fieldStart') {
+            state = 'quoted';
+            quoteLine = line;
+            quoteColumn = column;
+          } else {
+            if (char === '"') {
+              report('Unexpected quote in an unquoted field.');
+            }
+            field += char;
+            state = 'unquoted';
+          }
+          break;
+      }
+    }
+  };
+
+  const end = () => {
+    if (state === 'quoted') {
+      issues.push({
+        line: quoteLine,
+        column: quoteColumn,
+        message: 'Quoted field is never closed.',
+      });
+    }
+    // Emit the last record unless the input ended right after a line break.
+    if (state !== 'fieldStart' || field !== '' || values.length > 0) {
+      endRecord();
+    }
+    return issues;
+  };
+
+  return { push, end };
+}
+
+/**
+ * Parses a complete CSV string.
+ * @param csvText The raw CSV string.
+ * @returns The parsed records and any issues found in the input.
+ */
+export function parseCsvText(csvText: string): {
+  rows: CsvRow[];
+  issues: CsvIssue[];
+} {
+  const rows: CsvRow[] = [];
+  const parser = createCsvParser((row) => rows.push(row));
+  parser.push(csvText);
+  const issues = parser.end();
+  return { rows, issues };
+}
+
+/**
+ * Parses CSV from a byte stream (e.g. a fetch `Response.body`) without first
+ * buffering the whole text, emitting each record as soon as it is complete.
+ * @param stream A stream of UTF-8 encoded bytes.
+ * @param onRow Called once for every complete record, in input order.
+ * @returns A promise that resolves to the issues found once the stream is exhausted.
+ */
+export async function parseCsvStream(
+  stream: ReadableStream<Uint8Array>,
+  onRow: (row: CsvRow) => void
+): Promise<CsvIssue[]> {
+  const reader = stream.getReader();
+  const decoder = new TextDecoder('utf-8');
+  const parser = createCsvParser(onRow);
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      parser.push(decoder.decode(value, { stream: true }));
+    }
+    parser.push(decoder.decode());
+  } finally {
+    reader.releaseLock();
+  }
+
+  return parser.end();
+}
@@ -3,109 +3,157 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-// --- Configuration ---
-// IMPORTANT: Replace this with your Google Sheet's "Publish to web" CSV URL.
-// In Google Sheets: File > Share > Publish to web > Select a sheet & "Comma-separated values (.csv)" > Publish.
-const GOOGLE_SHEET_CSV_URL =
-  'https://docs.google.com/spreadsheets/d/e/2PACX-1vSekTVRYingSPdcpjSzVazPOJRJr_SxAyQV1lvqvgzvoW6BtnP8aEoVOo1sZSF6tJ27tLXv7JvxCPP9/pub?output=csv&gid=0&single=true';
+import { parseCsvStream, parseCsvText } from './csv-parser.ts';
+import type { CsvIssue, CsvRow } from './csv-parser.ts';
 
 /**
- * A robust CSV parser that handles quoted fields, double quotes inside fields,
- * and empty fields correctly. It skips the first line, assuming it's a description,
- * and uses the second line as headers.
- * @param csvText The raw CSV string.
- * @returns An array of objects, where keys are headers.
+ * A reserved key added to every row parsed from CSV, holding the row's 1-based row
+ * number in the source sheet (the description row is row 1, the headers row 2).
+ * Used to point sheet editors at the exact row when reporting data problems.
  */
-function parseCsv(csvText: string): Record<string, string>[] {
-  // Standardize line endings and split into lines.
-  const lines = csvText.trim().replace(/\r\n/g, '\n').split('\n');
-
-  // Need at least 2 lines: one for description (skipped) and one for headers.
-  if (lines.length < 2) {
-    return [];
-  }
+export const SHEET_ROW_KEY = '__sheetRow';
 
-  /**
-   * Parses a single line of CSV, respecting quotes.
-   * @param line The string for a single CSV row.
-   * @returns An array of string values for that row.
-   */
-  const parseLine = (line: string): string[] => {
-    const values: string[] = [];
-    let currentVal = '';
-    let inQuotes = false;
-
-    for (let i = 0; i < line.length; i++) {
-      const char = line[i];
-
-      if (char === '"') {
-        // If we see a quote, and the next character is also a quote (""),
-        // it's an escaped quote, so add a single " to the value and skip the next character.
-        if (inQuotes && line[i + 1] === '"') {
-          currentVal += '"';
-          i++; // Skip the second quote of the pair.
-        } else {
-          // Otherwise, it's a quote that starts or ends a quoted field.
-          inQuotes = !inQuotes;
-        }
-      } else if (char === ',' && !inQuotes) {
-        // If it's a comma and we're not inside a quoted field, it's a field separator.
-        values.push(currentVal);
-        currentVal = ''; // Reset for the next value.
-      } else {
-        // Any other character is part of the current value.
-        currentVal += char;
-      }
-    }
-    // Add the final value after the loop finishes.
-    values.push(currentVal);
-    return values;
-  };
-
-  // The first line is a description, so we skip it.
-  // The second line (index 1) contains the headers.
-  const headers = parseLine(lines[1]).map((h) => h.trim());
+/**
+ * Collects parsed CSV records into objects keyed by header. The first record is
+ * skipped, assuming it's a description, and the second record is used as headers.
+ * @returns The `onRow` callback to feed to the CSV parser and the collected results.
+ */
+function createRecordCollector() {
   const results: Record<string, string>[] = [];
+  let headers: string[] | null = null;
+  let recordIndex = 0;
 
-  // Process the rest of the lines (starting from the third line, index 2) as data rows.
-  for (let i = 2; i < lines.length; i++) {
-    const line = lines[i];
-    if (!line.trim()) continue; // Skip empty lines in the sheet.
+  const onRow = (row: CsvRow) => {
+    const index = recordIndex++;
+    // The first record is a description, so we skip it.
+    if (index === 0) return;
+    // The second record contains the headers.
+    if (index === 1) {
+      headers = row.values.map((h) => h.trim());
+      return;
+    }
+    if (!headers) return;
 
-    const values = parseLine(line);
     const obj: Record<string, string> = {};
     let hasContent = false;
 
-    headers.forEach((header, index) => {
-      const value = values[index] || ''; // Default to empty string if a value is missing.
+    headers.forEach((header, i) => {
+      const value = row.values[i] || ''; // Default to empty string if a value is missing.
       obj[header] = value;
       if (value.trim() !== '') hasContent = true; // Track if the row has any data at all.
     });
 
+    // Ragged rows are padded above; values beyond the last header would be lost, so report them.
+    if (row.values.slice(headers.length).some((v) => v.trim() !== '')) {
+      console.warn(
+        `CSV line ${row.line}: ${row.values.length} values for ${headers.length} headers, extra values ignored.`
+      );
+    }
+
     // Only add the row to results if it's not completely empty.
     if (hasContent) {
+      obj[SHEET_ROW_KEY] = String(index + 1);
       results.push(obj);
     }
+  };
+
+  return { onRow, results };
+}
+
+/**
+ * Parses the body of a CSV response into objects keyed by header. The body is
+ * streamed through the parser when the browser supports it, so the raw text never
+ * has to be held in memory alongside the parsed rows.
+ * @param response A successful fetch response containing CSV.
+ * @returns An array of objects, where keys are headers.
+ */
+async function parseCsvResponse(
+  response: Response
+): Promise<Record<string, string>[]> {
+  const { onRow, results } = createRecordCollector();
+
+  let issues: CsvIssue[];
+  if (response.body) {
+    issues = await parseCsvStream(response.body, onRow);
+  } else {
+    const csvText = await response.text();
+    const parsed = parseCsvText(csvText);
+    parsed.rows.forEach(onRow);
+    issues = parsed.issues;
   }
 
+  issues.forEach((issue) =>
+    console.warn(
+      `Malformed CSV at line ${issue.line}, column ${issue.column}: ${issue.message}`
+    )
+  );
+
   return results;
 }
 
 /**
- * Fetches stall data from a published Google Sheet CSV. It first tries to fetch
+ * Parses a complete CSV string (e.g. from a local file) into objects keyed by header.
+ * @param csvText The raw CSV string.
+ * @returns An array of objects, where keys are headers.
+ */
+export function parseCsvRecords(csvText: string): Record<string, string>[] {
+  const { onRow, results } = createRecordCollector();
+  const { rows, issues } = parseCsvText(csvText);
+  rows.forEach(onRow);
+  issues.forEach((issue) =>
+    console.warn(
+      `Malformed CSV at line ${issue.line}, column ${issue.column}: ${issue.message}`
+    )
+  );
+  return results;
+}
+
+/**
+ * Normalizes parsed JSON into the same row shape the CSV parser produces.
+ * Accepts either an array of row objects or an object with a `rows` array.
+ * Non-string values are converted to strings; `null` and `undefined` become empty.
+ * @param json The parsed JSON value.
+ * @returns An array of objects, where keys are column names.
+ */
+export function parseJsonRecords(json: unknown): Record<string, string>[] {
+  const rows = Array.isArray(json)
+    ? json
+    : (json as { rows?: unknown } | null)?.rows;
+  if (!Array.isArray(rows)) {
+    throw new Error('Stall data JSON must be an array or { rows: [...] }.');
+  }
+
+  return rows
+    .filter(
+      (row): row is Record<string, unknown> => !!row && typeof row === 'object'
+    )
+    .map((row) => {
+      const obj: Record<string, string> = {};
+      Object.entries(row).forEach(([key, value]) => {
+        obj[key] = value == null ? '' : String(value);
+      });
+      return obj;
+    });
+}
+
+/**
+ * Fetches stall data from a published CSV (e.g. a Google Sheet). It first tries to fetch
  * with a cache-busting timestamp to get the latest data. If that fails (e.g., with a
  * 500 server error), it falls back to fetching without the timestamp for reliability.
+ * @param csvUrl The URL of the published CSV.
  * @returns A promise that resolves to an array of stall objects.
  */
-export async function fetchStallData(): Promise<Record<string, string>[]> {
-  const urlWithTimestamp = `${GOOGLE_SHEET_CSV_URL}&_=${Date.now()}`;
+export async function fetchCsvData(
+  csvUrl: string
+): Promise<Record<string, string>[]> {
+  const separator = csvUrl.includes('?') ? '&' : '?';
+  const urlWithTimestamp = `${csvUrl}${separator}_=${Date.now()}`;
 
   // --- First Attempt: With Cache-Busting Timestamp ---
   try {
     const response = await fetch(urlWithTimestamp);
     if (response.ok) {
-      const csvText = await response.text();
-      return parseCsv(csvText);
+      return await parseCsvResponse(response);
     }
     // Log non-critical server errors and proceed to fallback.
     console.warn(
@@ -122,15 +170,14 @@ export async function fetchStallData(): Promise<Record<string, string>[]> {
   // --- Second Attempt (Fallback): Without Timestamp ---
   console.log('Attempting fallback fetch without cache-busting timestamp.');
   try {
-    const fallbackResponse = await fetch(GOOGLE_SHEET_CSV_URL);
+    const fallbackResponse = await fetch(csvUrl);
     if (!fallbackResponse.ok) {
       // If the fallback also fails, this is a critical error.
       throw new Error(
         `Fallback fetch failed: ${fallbackResponse.status} ${fallbackResponse.statusText}`
       );
     }
-    const csvText = await fallbackResponse.text();
-    return parseCsv(csvText);
+    return await parseCsvResponse(fallbackResponse);
   } catch (error) {
     // If both attempts fail, log the final error and return empty.
     console.error(
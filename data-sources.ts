@@ -0,0 +1,180 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+  fetchCsvData,
+  parseCsvRecords,
+  parseJsonRecords,
+} from './data-loader.ts';
+import { fixtureStallRows } from './fixture-data.ts';
+
+/**
+ * A source of raw stall rows. Every adapter resolves to the same row shape the
+ * published sheet produces, so `processStalls` never needs to know where data came from.
+ */
+export interface StallDataSource {
+  /** A stable identifier for the source, e.g. "csv:https://...". */
+  key: string;
+  /** Loads the raw rows. Resolves to an empty array if loading fails. */
+  load: () => Promise<Record<string, string>[]>;
+}
+
+/**
+ * Creates a source that reads a published CSV URL.
+ * @param url The "Publish to web" CSV URL.
+ * @returns A stall data source.
+ */
+export function createCsvUrlSource(url: string): StallDataSource {
+  return {
+    key: `csv:${url}`,
+    load: () => fetchCsvData(url),
+  };
+}
+
+/**
+ * Creates a source that reads a static JSON file, e.g. an export committed next to the app.
+ * @param url The URL of the JSON file.
+ * @returns A stall data source.
+ */
+export function createJsonFileSource(url: string): StallDataSource {
+  return {
+    key: `json:${url}`,
+    load: async () => {
+      try {
+        const response = await fetch(url);
+        if (!response.ok) {
+          throw new Error(
+            `JSON fetch failed: ${response.status} ${response.statusText}`,
+          );
+        }
+        return parseJsonRecords(await response.json());
+      } catch (error) {
+        console.error('Error fetching or parsing stall data JSON:', error);
+        return [];
+      }
+    },
+  };
+}
+
+/**
+ * Creates a source that lets the user pick a CSV or JSON file from their device.
+ * A small picker is shown over the page until a file is chosen.
+ * @returns A stall data source.
+ */
+export function createLocalFileSource(): StallDataSource {
+  return {
+    key: 'file',
+    load: () =>
+      new Promise((resolve) => {
+        const picker = document.createElement('label');
+        picker.className = 'local-file-picker';
+        picker.textContent = '選擇攤位資料檔案 (CSV / JSON)';
+
+        const input = document.createElement('input');
+        input.type = 'file';
+        input.accept = '.csv,.json,text/csv,application/json';
+        picker.appendChild(input);
+        document.body.appendChild(picker);
+
+        input.addEventListener('change', async () => {
+          const file = input.files?.[0];
+          if (!file) return;
+          picker.remove();
+          try {
+            const text = await file.text();
+            resolve(
+              file.name.toLowerCase().endsWith('.json')
+                ? parseJsonRecords(JSON.parse(text))
+                : parseCsvRecords(text),
+            );
+          } catch (error) {
+            console.error('Error reading local stall data file:', error);
+            resolve([]);
+          }
+        });
+      }),
+  };
+}
+
+/**
+ * Creates a source that serves rows held in memory, for local development and demos.
+ * @param rows The rows to serve. Defaults to the bundled fixture.
+ * @returns A stall data source.
+ */
+export function createFixtureSource(
+  rows: Record<string, string>[] = fixtureStallRows,
+): StallDataSource {
+  return {
+    key: 'fixture',
+    // Hand out copies so callers can't mutate the fixture between loads.
+    load: async () => rows.map((row) => ({ ...row })),
+  };
+}
+
+/**
+ * Builds a source from a spec string. Supported forms:
+ * - `csv:<url>`  a published CSV URL
+ * - `json:<url>` a static JSON file
+ * - `file`       a file picked by the user
+ * - `fixture`    the bundled in-memory fixture
+ * @param spec The source spec.
+ * @returns The source, or null if the spec is not recognised.
+ */
+export function createStallDataSource(spec: string): StallDataSource | null {
+  const separatorIndex = spec.indexOf(':');
+  const type = separatorIndex === -1 ? spec : spec.slice(0, separatorIndex);
+  const target = separatorIndex === -1 ? '' : spec.slice(separatorIndex + 1);
+
+  switch (type) {
+    case 'csv':
+      return target ? createCsvUrlSource(target) : null;
+    case 'json':
+      return target ? createJsonFileSource(target) : null;
+    case 'file':
+      return createLocalFileSource();
+    case 'fixture':
+      return createFixtureSource();
+    default:
+      return null;
+  }
+}
+
+/**
+ * Chooses the stall data source for this page load. The `?source=` URL parameter
+ * wins, then the `VITE_STALL_DATA_SOURCE` env variable, then the event's own source.
+ * The URL parameter is only honoured in debug mode: otherwise a shared link could
+ * point the map at data from any site.
+ * @param urlParams The current page's URL parameters.
+ * @param eventSpec The data source spec of the active event.
+ * @param isDebugMode Whether the page runs with `?debug=true`.
+ * @returns The source to load stall data from.
+ */
+export function resolveStallDataSource(
+  urlParams: URLSearchParams,
+  eventSpec: string,
+  isDebugMode: boolean,
+): StallDataSource {
+  const urlSpec = urlParams.get('source');
+  if (urlSpec && !isDebugMode) {
+    console.warn(
+      `Ignoring ?source="${urlSpec}"; it is only honoured with ?debug=true.`,
+    );
+  }
+
+  const candidates = [
+    isDebugMode ? urlSpec : null,
+    import.meta.env.VITE_STALL_DATA_SOURCE,
+    eventSpec,
+  ];
+
+  for (const spec of candidates) {
+    if (!spec) continue;
+    const source = createStallDataSource(spec);
+    if (source) return source;
+    console.warn(`Unknown stall data source "${spec}", ignoring.`);
+  }
+
+  throw new Error('No valid stall data source is configured.');
+}
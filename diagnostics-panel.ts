@@ -0,0 +1,57 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { formatRowLabel } from './stall-validator.ts';
+import type { ValidationIssue } from './stall-validator.ts';
+
+const PANEL_ID = 'diagnostics-panel';
+
+/**
+ * Renders (or re-renders) the data diagnostics panel above the map, listing every
+ * validation issue with the sheet row it came from. Only used in debug mode.
+ * @param issues The issues found by `validateStallRows`.
+ * @param mapContainer The map container; the panel is inserted right before it.
+ */
+export function renderDiagnosticsPanel(
+  issues: ValidationIssue[],
+  mapContainer: HTMLElement,
+) {
+  let panel = document.getElementById(PANEL_ID) as HTMLDetailsElement | null;
+  if (!panel) {
+    panel = document.createElement('details');
+    panel.id = PANEL_ID;
+    mapContainer.before(panel);
+  }
+
+  const errorCount = issues.filter((i) => i.severity === 'error').length;
+  const warningCount = issues.length - errorCount;
+
+  const summary = document.createElement('summary');
+  summary.textContent =
+    issues.length === 0
+      ? '資料檢查：沒有發現問題'
+      : `資料檢查：${errorCount} 個錯誤、${warningCount} 個警告`;
+  panel.classList.toggle('has-errors', errorCount > 0);
+
+  const list = document.createElement('ol');
+  list.className = 'diagnostics-list';
+  issues.forEach((issue) => {
+    const item = document.createElement('li');
+    item.className = `diagnostics-item is-${issue.severity}`;
+
+    const row = document.createElement('span');
+    row.className = 'diagnostics-row';
+    row.textContent = formatRowLabel(issue.sheetRow, issue.index);
+
+    const message = document.createElement('span');
+    message.className = 'diagnostics-message';
+    message.textContent = issue.message;
+
+    item.append(row, message);
+    list.appendChild(item);
+  });
+
+  panel.replaceChildren(summary, list);
+}
@@ -18,10 +18,43 @@ export const criticalElementIds = [
   'modal-close',
   'modal-overlay',
   'modal-title',
+  'modal-favorite',
+  'modal-next-match',
+  'modal-match-nav',
+  'modal-match-prev',
+  'modal-match-counter',
+  'modal-match-next',
+  'modal-match-order',
+  'modal-visit-status',
   'modal-body',
   'modal-footer',
+  'event-title',
+  'event-dates',
+  'legend-container',
+  'event-archive',
+  'event-archive-list',
   'instructions-text',
+  'data-status-banner',
+  'data-status-text',
+  'data-status-retry',
   'search-input',
+  'search-suggestions',
+  'favorites-only-btn',
+  'tag-facets',
+  'search-results',
+  'search-results-count',
+  'search-results-list',
+  'route-input',
+  'route-plan-btn',
+  'route-add-matches-btn',
+  'route-clear-btn',
+  'route-message',
+  'route-steps',
+  'visit-progress',
+  'visit-progress-text',
+  'visit-progress-bar',
+  'visit-progress-breakdown',
+  'visit-log',
   'toggle-magnifier-btn',
   'modal-magnifier-wrapper',
   'modal-magnifier',
@@ -77,12 +110,86 @@ export function getDOMElements() {
     modal: document.getElementById('modal') as HTMLElement,
     modalClose: document.getElementById('modal-close') as HTMLElement,
     modalOverlay: document.getElementById('modal-overlay') as HTMLElement,
+    modalContent: document.querySelector('.modal-content') as HTMLElement,
     modalHeader: document.querySelector('.modal-header') as HTMLElement,
     modalTitle: document.getElementById('modal-title') as HTMLElement,
+    modalFavorite: document.getElementById(
+      'modal-favorite',
+    ) as HTMLButtonElement,
+    modalNextMatch: document.getElementById(
+      'modal-next-match',
+    ) as HTMLButtonElement,
+    modalMatchNav: document.getElementById('modal-match-nav') as HTMLElement,
+    modalMatchPrev: document.getElementById(
+      'modal-match-prev',
+    ) as HTMLButtonElement,
+    modalMatchCounter: document.getElementById(
+      'modal-match-counter',
+    ) as HTMLElement,
+    modalMatchNext: document.getElementById(
+      'modal-match-next',
+    ) as HTMLButtonElement,
+    modalMatchOrder: document.getElementById(
+      'modal-match-order',
+    ) as HTMLButtonElement,
+    modalVisitStatus: document.getElementById(
+      'modal-visit-status',
+    ) as HTMLElement,
     modalBody: document.getElementById('modal-body') as HTMLElement,
     modalFooter: document.getElementById('modal-footer') as HTMLElement,
+    eventTitle: document.getElementById('event-title') as HTMLElement,
+    eventDates: document.getElementById('event-dates') as HTMLElement,
+    legendContainer: document.getElementById('legend-container') as HTMLElement,
+    eventArchive: document.getElementById('event-archive') as HTMLElement,
+    eventArchiveList: document.getElementById(
+      'event-archive-list',
+    ) as HTMLElement,
     instructionsEl: document.getElementById('instructions-text') as HTMLElement,
+    dataStatusBanner: document.getElementById(
+      'data-status-banner',
+    ) as HTMLElement,
+    dataStatusText: document.getElementById('data-status-text') as HTMLElement,
+    dataStatusRetry: document.getElementById(
+      'data-status-retry',
+    ) as HTMLButtonElement,
     searchInput: document.getElementById('search-input') as HTMLInputElement,
+    searchSuggestions: document.getElementById(
+      'search-suggestions',
+    ) as HTMLElement,
+    favoritesOnlyBtn: document.getElementById(
+      'favorites-only-btn',
+    ) as HTMLButtonElement,
+    tagFacets: document.getElementById('tag-facets') as HTMLElement,
+    searchResults: document.getElementById('search-results') as HTMLElement,
+    searchResultsCount: document.getElementById(
+      'search-results-count',
+    ) as HTMLElement,
+    searchResultsList: document.getElementById(
+      'search-results-list',
+    ) as HTMLElement,
+    routeInput: document.getElementById('route-input') as HTMLTextAreaElement,
+    routePlanBtn: document.getElementById(
+      'route-plan-btn',
+    ) as HTMLButtonElement,
+    routeAddMatchesBtn: document.getElementById(
+      'route-add-matches-btn',
+    ) as HTMLButtonElement,
+    routeClearBtn: document.getElementById(
+      'route-clear-btn',
+    ) as HTMLButtonElement,
+    routeMessage: document.getElementById('route-message') as HTMLElement,
+    routeSteps: document.getElementById('route-steps') as HTMLElement,
+    visitProgress: document.getElementById('visit-progress') as HTMLElement,
+    visitProgressText: document.getElementById(
+      'visit-progress-text',
+    ) as HTMLElement,
+    visitProgressBar: document.getElementById(
+      'visit-progress-bar',
+    ) as HTMLProgressElement,
+    visitProgressBreakdown: document.getElementById(
+      'visit-progress-breakdown',
+    ) as HTMLElement,
+    visitLog: document.getElementById('visit-log') as HTMLElement,
     toggleMagnifierBtn: document.getElementById(
       'toggle-magnifier-btn',
     ) as HTMLElement,
@@ -0,0 +1,63 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { nice0816Event } from './official-data.ts';
+import type { EventConfig } from './types.ts';
+
+/**
+ * Every event the map knows about. Past events stay listed here so their maps
+ * remain browsable as an archive via `?event=<id>`.
+ */
+export const eventConfigs: EventConfig[] = [nice0816Event];
+
+/**
+ * Returns the most recent event, used when none is selected explicitly.
+ * @param events The events to choose from.
+ */
+function getLatestEvent(events: EventConfig[]): EventConfig {
+  return events.reduce((latest, event) =>
+    event.startDate > latest.startDate ? event : latest,
+  );
+}
+
+/**
+ * Returns true if the event has already ended.
+ * @param event The event to check.
+ * @param now The current time.
+ */
+export function isPastEvent(event: EventConfig, now = new Date()): boolean {
+  // Compare against the end of the event's last day, in local time.
+  return new Date(`${event.endDate}T23:59:59`) < now;
+}
+
+/**
+ * Chooses the event for this page load. The `?event=` URL parameter wins, then the
+ * `VITE_EVENT_ID` env variable, then the most recent event.
+ * @param urlParams The current page's URL parameters.
+ * @returns The event to show.
+ */
+export function resolveEventConfig(urlParams: URLSearchParams): EventConfig {
+  const candidates = [urlParams.get('event'), import.meta.env.VITE_EVENT_ID];
+
+  for (const id of candidates) {
+    if (!id) continue;
+    const event = eventConfigs.find((e) => e.id === id);
+    if (event) return event;
+    console.warn(`Unknown event "${id}", ignoring.`);
+  }
+
+  return getLatestEvent(eventConfigs);
+}
+
+/** The event shown on this page. Resolved once, since switching events reloads the page. */
+export const activeEvent = resolveEventConfig(
+  new URLSearchParams(window.location.search),
+);
+
+/** The row templates of the active event's venue. */
+export const locateStalls = activeEvent.locateStalls;
+
+/** The row order of the active event's venue, from the bottom of the map up. */
+export const rowOrder = activeEvent.rowOrder;
@@ -0,0 +1,105 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { isPastEvent } from './event-config.ts';
+import type { DOMElements } from './dom-elements.ts';
+import type { EventConfig, LegendEntry } from './types.ts';
+import { visitStatuses, visitStatusLabels } from './visit-status.ts';
+
+// The markers the app adds to the map, the same for every event.
+const APP_LEGEND: LegendEntry[] = [
+  { className: 'legend-favorite', label: '我的最愛' },
+  ...visitStatuses.map((status) => ({
+    className: `legend-${status}`,
+    label: visitStatusLabels[status],
+  })),
+];
+
+/**
+ * Formats an event's dates for display, e.g. "2025/08/16" or "2025/08/16 – 2025/08/17".
+ * @param event The event.
+ */
+function formatEventDates(event: EventConfig): string {
+  const format = (date: string) => date.replace(/-/g, '/');
+  return event.startDate === event.endDate
+    ? format(event.startDate)
+    : `${format(event.startDate)} – ${format(event.endDate)}`;
+}
+
+/**
+ * Applies the event's branding to the page: title, heading, dates, legend and map image.
+ * Must run before waiting for the map image to load, since it sets the image source.
+ * @param elements A reference to all DOM elements.
+ * @param event The active event.
+ */
+export function applyEventConfig(elements: DOMElements, event: EventConfig) {
+  document.title = event.pageTitle;
+  elements.eventTitle.textContent = event.name;
+
+  const dates = formatEventDates(event);
+  elements.eventDates.textContent = isPastEvent(event)
+    ? `${dates}（已結束，以下為封存地圖）`
+    : dates;
+
+  const legendItems = [...event.legend, ...APP_LEGEND].map((entry) => {
+    const item = document.createElement('div');
+    item.className = 'legend-item';
+    const box = document.createElement('span');
+    box.className = `legend-box ${entry.className}`;
+    const label = document.createElement('span');
+    label.textContent = entry.label;
+    item.append(box, label);
+    return item;
+  });
+  elements.legendContainer.replaceChildren(...legendItems);
+
+  elements.mapImage.alt = event.mapImage.alt;
+  elements.mapImage.src = event.mapImage.src;
+}
+
+/**
+ * Lists every configured event with a link to its map, newest first.
+ * The list stays hidden while there is only one event.
+ * @param elements A reference to all DOM elements.
+ * @param events All configured events.
+ * @param activeEvent The event currently shown.
+ */
+export function renderEventArchive(
+  elements: DOMElements,
+  events: EventConfig[],
+  activeEvent: EventConfig,
+) {
+  const { eventArchive, eventArchiveList } = elements;
+  if (events.length < 2) {
+    eventArchive.classList.add('hidden');
+    return;
+  }
+
+  const items = [...events]
+    .sort((a, b) => b.startDate.localeCompare(a.startDate))
+    .map((event) => {
+      const item = document.createElement('li');
+      const label = `${formatEventDates(event)} ${event.name}`;
+
+      if (event.id === activeEvent.id) {
+        item.className = 'is-current-event';
+        item.textContent = label;
+        item.setAttribute('aria-current', 'page');
+      } else {
+        // Keep other parameters (e.g. debug) but drop ones tied to the current event.
+        const url = new URL(window.location.href);
+        url.searchParams.set('event', event.id);
+        url.searchParams.delete('source');
+        const link = document.createElement('a');
+        link.href = url.toString();
+        link.textContent = label;
+        item.appendChild(link);
+      }
+      return item;
+    });
+
+  eventArchiveList.replaceChildren(...items);
+  eventArchive.classList.remove('hidden');
+}
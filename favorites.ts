@@ -0,0 +1,87 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { activeEvent } from './event-config.ts';
+import type { RankedStall } from './search.ts';
+
+// Favorites are kept per event, since stall IDs are reused from one event to the next.
+const STORAGE_KEY = `favorites:${activeEvent.id}`;
+
+/**
+ * Reads the saved favorites. Storage can be unavailable (e.g. in private browsing),
+ * in which case the list starts empty and lasts for the visit.
+ * @returns The IDs of the favorite stalls.
+ */
+function loadFavorites(): Set<string> {
+  try {
+    const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]');
+    return new Set(
+      Array.isArray(saved)
+        ? saved.filter((id): id is string => typeof id === 'string')
+        : [],
+    );
+  } catch (error) {
+    console.warn('Could not load favorites:', error);
+    return new Set();
+  }
+}
+
+/** The IDs of the stalls marked as favorites. */
+const favoriteStallIds = loadFavorites();
+
+/** The "favorites only" switch, shared by the map highlights and the modal navigation. */
+export const favoritesFilter = { isOnly: false };
+
+/** Saves the favorites. Failing to is not fatal; they still last for the visit. */
+function saveFavorites() {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify([...favoriteStallIds]));
+  } catch (error) {
+    console.warn('Could not save favorites:', error);
+  }
+}
+
+/**
+ * Returns true if a stall is a favorite.
+ * @param stallId The stall's ID.
+ */
+export function isFavorite(stallId: string): boolean {
+  return favoriteStallIds.has(stallId);
+}
+
+/** Returns the IDs of the favorite stalls. */
+export function getFavoriteStallIds(): string[] {
+  return [...favoriteStallIds];
+}
+
+/**
+ * Adds a stall to the favorites, or removes it, and saves the change.
+ * @param stallId The stall's ID.
+ * @returns True if the stall is now a favorite.
+ */
+export function toggleFavorite(stallId: string): boolean {
+  if (favoriteStallIds.has(stallId)) {
+    favoriteStallIds.delete(stallId);
+  } else {
+    favoriteStallIds.add(stallId);
+  }
+  saveFavorites();
+  return favoriteStallIds.has(stallId);
+}
+
+/**
+ * Narrows search results to the favorites while the "favorites only" switch is on.
+ * @param results The search results.
+ * @param filter The favorites filter; defaults to the shared switch.
+ * @returns The results that pass the filter, in the same order.
+ */
+export function applyFavoritesFilter(
+  results: RankedStall[],
+  filter = favoritesFilter,
+): RankedStall[] {
+  return filter.isOnly
+    ? results.filter(({ stall }) => favoriteStallIds.has(stall.id))
+    : results;
+}
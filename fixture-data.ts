@@ -0,0 +1,76 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * A small, hand-written set of sheet rows for local development (`?source=fixture`).
+ * Covers the interesting shapes: official-only rows, promo rows merged into an
+ * official stall, multi-table and joint stalls, vertical columns and multi-line promo HTML.
+ */
+export const fixtureStallRows: Record<string, string>[] = [
+  {
+    id: 'A01',
+    num: '1',
+    stallCnt: '1',
+    stallTitle: '範例社團 A',
+    stallImg: '',
+    stallLink: 'https://example.com/a01',
+  },
+  {
+    id: 'A01',
+    promoUser: '測試宣傳者',
+    promoAvatar: '',
+    promoHTML: '<p>第一行\n第二行</p>',
+    promoLinks: 'https://example.com/promo-a01',
+    promoTags: '原創;插畫',
+  },
+  {
+    id: 'B05',
+    num: '5',
+    stallCnt: '2',
+    stallTitle: '雙攤位社團',
+    stallImg: '',
+    stallLink: '',
+  },
+  {
+    id: 'B05',
+    promoUser: 'Fixture User',
+    promoAvatar: '',
+    promoHTML: '<p>Two tables, one circle.</p>',
+    promoLinks: '',
+    promoTags: '同人誌',
+  },
+  {
+    id: 'K40',
+    num: '40',
+    stallCnt: '1',
+    stallTitle: '上排社團',
+    stallImg: '',
+    stallLink: '',
+  },
+  {
+    id: 'K61K62',
+    num: '61',
+    stallCnt: '2',
+    stallTitle: '聯合攤位社團',
+    stallImg: '',
+    stallLink: '',
+  },
+  {
+    id: 'K62',
+    promoUser: '聯合攤位宣傳者',
+    promoAvatar: '',
+    promoHTML: '<p>Listed under the second table.</p>',
+    promoLinks: '',
+    promoTags: '',
+  },
+  {
+    id: '雞05',
+    num: '5',
+    stallCnt: '1',
+    stallTitle: '直排社團',
+    stallImg: '',
+    stallLink: '',
+  },
+];
@@ -0,0 +1,32 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+const HTML_ESCAPES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&#39;',
+};
+
+/**
+ * Escapes plain text for HTML markup, as element content or a quoted attribute.
+ * @param text The text, e.g. a value from the stall data.
+ * @returns The escaped text.
+ */
+export function escapeHtml(text: string): string {
+  return text.replace(/[&<>"']/g, (char) => HTML_ESCAPES[char]);
+}
+
+/**
+ * Escapes the quotes of HTML that is already safe as element content (such as
+ * DOMPurify output, whose `&` and `<` are encoded), so it can go in a quoted
+ * attribute without being encoded twice.
+ * @param html The sanitized HTML.
+ * @returns The HTML with its quotes escaped.
+ */
+export function escapeQuotes(html: string): string {
+  return html.replace(/["']/g, (char) => HTML_ESCAPES[char]);
+}
@@ -3,14 +3,72 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-import { fetchStallData } from './data-loader.ts';
 import { processStalls } from './stall-processor.ts';
 import { createMagnifier } from './magnifier.ts';
 import { getDOMElements } from './dom-elements.ts';
-import { initializeModalEventListeners, openModal } from './modal-manager.ts';
-import { renderStalls, uiState, updateStallClass } from './ui-manager.ts';
+import {
+  closeModal,
+  initializeModalEventListeners,
+  openModal,
+} from './modal-manager.ts';
+import {
+  isEditableTarget,
+  reconcileStalls,
+  renderStalls,
+  setFavoriteClass,
+  setVisitStatusClass,
+  uiState,
+  updateStallClass,
+} from './ui-manager.ts';
+import {
+  diffStalls,
+  isEmptyDiff,
+  resolveRefreshInterval,
+  startLiveRefresh,
+} from './live-refresh.ts';
 import { initializeApp } from './app-loader.ts';
-import { locateStalls } from './official-data.ts';
+import { activeEvent, eventConfigs, locateStalls } from './event-config.ts';
+import { applyEventConfig, renderEventArchive } from './event-page.ts';
+import { resolveStallDataSource } from './data-sources.ts';
+import {
+  formatSnapshotTime,
+  loadSnapshot,
+  saveSnapshot,
+} from './snapshot-cache.ts';
+import type { StallDataSnapshot } from './snapshot-cache.ts';
+import type { StallData } from './types.ts';
+import type { DOMElements } from './dom-elements.ts';
+import { validateStallRows } from './stall-validator.ts';
+import { renderDiagnosticsPanel } from './diagnostics-panel.ts';
+import { formatStallLabel } from './stall-id.ts';
+import { parseQuery } from './search.ts';
+import { getSearchIndex, searchStalls } from './search-index.ts';
+import { createCalibrationEditor } from './calibration-editor.ts';
+import { createSearchResults } from './search-results.ts';
+import { createSearchAutocomplete } from './search-autocomplete.ts';
+import { createHistorySync, readUrlState } from './url-state.ts';
+import type { UrlState } from './url-state.ts';
+import { createRoutePanel } from './route-panel.ts';
+import { createVisitProgress } from './visit-progress.ts';
+import {
+  getVisitStatus,
+  getVisitStatuses,
+  visitStatusLabels,
+} from './visit-status.ts';
+import { createMapCursor } from './map-cursor.ts';
+import { isFiltering } from './navigation.ts';
+import type { MapCursorController } from './map-cursor.ts';
+import {
+  applyFavoritesFilter,
+  favoritesFilter,
+  getFavoriteStallIds,
+  isFavorite,
+  toggleFavorite,
+} from './favorites.ts';
+import { applyTagFilter, createTagFacetBar, tagFilter } from './tag-facets.ts';
+
+// How long the search waits after the last keystroke.
+const SEARCH_DEBOUNCE_MS = 150;
 
 /**
  * Renders visual borders on the map for each stall row for debugging purposes.
@@ -34,6 +92,36 @@ function renderDebugBorders(mapContainer: HTMLElement) {
   });
 }
 
+/**
+ * Shows the banner telling the user the map is running on an offline snapshot,
+ * and wires its retry button to attempt a fresh load.
+ * @param elements A reference to all DOM elements.
+ * @param snapshot The snapshot currently being displayed.
+ * @param retry Re-fetches and applies the stall data. Resolves to true on success.
+ */
+function showSnapshotBanner(
+  elements: DOMElements,
+  snapshot: StallDataSnapshot,
+  retry: () => Promise<boolean>,
+) {
+  const { dataStatusBanner, dataStatusText, dataStatusRetry } = elements;
+  const time = formatSnapshotTime(snapshot.savedAt);
+
+  dataStatusText.textContent = `目前無法連線，顯示的是 ${time} 的攤位資料。`;
+  dataStatusBanner.classList.remove('hidden');
+
+  dataStatusRetry.onclick = async () => {
+    dataStatusRetry.disabled = true;
+    dataStatusText.textContent = '正在重新載入攤位資料…';
+
+    const succeeded = await retry();
+    dataStatusRetry.disabled = false;
+    if (!succeeded) {
+      dataStatusText.textContent = `仍無法連線，顯示的是 ${time} 的攤位資料。`;
+    }
+  };
+}
+
 /**
  * Initializes and runs the entire application.
  * This function orchestrates the fetching of data, processing it, setting up the UI,
@@ -43,16 +131,33 @@ function renderDebugBorders(mapContainer: HTMLElement) {
 async function runApp() {
   const elements = getDOMElements();
 
-  // To enable debug borders, add `?debug=true` to the URL.
+  // To enable debug borders, the data diagnostics panel and the layout calibration
+  // editor, add `?debug=true` to the URL.
   const urlParams = new URLSearchParams(window.location.search);
-  if (urlParams.get('debug') === 'true') {
+  const isDebugMode = urlParams.get('debug') === 'true';
+  // A shared view (`?q=`, `?stall=`, `?mag=`), restored once the map is ready.
+  const initialUrlState = readUrlState(window.location.search);
+  if (isDebugMode) {
     elements.mapContainer.classList.add('debug-mode');
   }
 
+  // The event can be switched with `?event=` or VITE_EVENT_ID.
+  applyEventConfig(elements, activeEvent);
+  renderEventArchive(elements, eventConfigs, activeEvent);
+
   elements.instructionsEl.textContent = '正在載入地圖與攤位資料';
   elements.instructionsEl.classList.add('loading-text');
 
   // --- Asynchronous Resource Loading ---
+  // The data source can be switched with VITE_STALL_DATA_SOURCE, or with `?source=`
+  // in debug mode.
+  const dataSource = resolveStallDataSource(
+    urlParams,
+    activeEvent.dataSource,
+    isDebugMode,
+  );
+  // Snapshots are kept per event, so local sources (e.g. fixture) don't mix events.
+  const snapshotKey = `${activeEvent.id}:${dataSource.key}`;
   const loadImage = new Promise<void>((resolve, reject) => {
     if (elements.mapImage.complete) {
       resolve();
@@ -64,16 +169,35 @@ async function runApp() {
   });
 
   try {
-    const [rawData] = await Promise.all([fetchStallData(), loadImage]);
+    const [loadedData] = await Promise.all([dataSource.load(), loadImage]);
+    let rawData = loadedData;
+    let offlineSnapshot: StallDataSnapshot | null = null;
+
+    // Keep a copy of every successful load. When the network fails (e.g. venue Wi-Fi),
+    // fall back to the last copy instead of leaving the map empty.
+    if (rawData.length > 0) {
+      saveSnapshot(snapshotKey, rawData);
+    } else {
+      const snapshot = await loadSnapshot(snapshotKey);
+      if (snapshot && snapshot.rows.length > 0) {
+        rawData = snapshot.rows;
+        offlineSnapshot = snapshot;
+      }
+    }
     elements.instructionsEl.classList.remove('loading-text');
 
     if (rawData.length === 0) {
-      elements.mapContainer.innerHTML = `<p style="color: red; padding: 20px;"><b>無法載入攤位資料：</b><br>請檢查您的 Google Sheet 是否已「發佈至網路」、網址是否正確，或檢查您的網路連線。</p>`;
+      elements.mapContainer.innerHTML = `<p style="color: red; padding: 20px;"><b>無法載入攤位資料：</b><br>請檢查資料來源（如 Google Sheet 是否已「發佈至網路」）、網址是否正確，或檢查您的網路連線。</p>`;
       elements.instructionsEl.textContent = '載入失敗';
       return;
     }
 
     const allStalls = processStalls(rawData);
+    // Build the search index up front, rather than on the first keystroke.
+    getSearchIndex(allStalls);
+    if (isDebugMode) {
+      renderDiagnosticsPanel(validateStallRows(rawData), elements.mapContainer);
+    }
 
     // --- Initialization & Setup ---
     // Use a media query for a more robust responsive check based on viewport width.
@@ -86,6 +210,92 @@ async function runApp() {
       magnifierController: null as any,
       uiState,
       isMobile: mobileCheck,
+      onModalChange: (stallId: string | null) => {
+        const lastStallId = openStallId;
+        openStallId = stallId;
+        if (stallId) {
+          mapCursor?.suspend();
+          historySync.modalOpened(stallId);
+        } else {
+          historySync.modalClosed();
+          mapCursor?.resume(lastStallId);
+        }
+      },
+      onFavoriteChange: () => {
+        if (favoritesFilter.isOnly) applySearch();
+      },
+      onVisitStatusChange: () => visitProgress.render(),
+    };
+
+    // The view state mirrored in the URL (see url-state.ts).
+    let openStallId: string | null = null;
+    let magnifierCenter: UrlState['magnifier'] = null;
+    // The keyboard cursor on the main map; desktop only.
+    let mapCursor: MapCursorController | null = null;
+
+    /**
+     * Shows the hover tooltip for a stall: a favorite toggle, its title, label, promo
+     * users and visit status.
+     * @param stall The stall.
+     */
+    const showStallTooltip = (stall: StallData) => {
+      const promoUsers = stall.promoData
+        ?.map((o) => o.promoUser)
+        .filter((value, index, self) => self.indexOf(value) === index)
+        .join(',');
+      const status = getVisitStatus(stall.id);
+
+      const isOn = isFavorite(stall.id);
+      const favoriteToggle = document.createElement('button');
+      favoriteToggle.type = 'button';
+      favoriteToggle.className = 'tooltip-favorite-toggle';
+      favoriteToggle.dataset.stallId = stall.id;
+      favoriteToggle.textContent = isOn ? '★' : '☆';
+      favoriteToggle.setAttribute('aria-pressed', String(isOn));
+      favoriteToggle.ariaLabel = isOn
+        ? '從我的最愛移除 (F)'
+        : '加入我的最愛 (F)';
+
+      // Built from text nodes, since the values come from the stall data.
+      const title = document.createElement('strong');
+      title.append(favoriteToggle, ' ', stall.stallTitle);
+
+      const details = document.createElement('small');
+      details.textContent = `${formatStallLabel(stall)}${promoUsers ? ` / ${promoUsers}` : ''}${status ? ` · ${visitStatusLabels[status]}` : ''}`;
+
+      elements.tooltip.replaceChildren(
+        title,
+        document.createElement('br'),
+        details,
+      );
+      elements.tooltip.classList.remove('hidden');
+    };
+
+    /**
+     * Places the tooltip at the bottom-right corner of a stall element, overlapping
+     * it a little so the pointer can move onto the tooltip without leaving the stall.
+     * @param area The stall element, on the map or in the magnifier.
+     */
+    const placeTooltipBeside = (area: HTMLElement) => {
+      const rect = area.getBoundingClientRect();
+      elements.tooltip.style.left = `${rect.right - 4}px`;
+      elements.tooltip.style.top = `${rect.bottom - 4}px`;
+    };
+
+    /**
+     * Adds a stall to the favorites, or removes it, from the map: marks it and
+     * updates its tooltip.
+     * @param stall The stall.
+     */
+    const toggleStallFavorite = (stall: StallData) => {
+      setFavoriteClass(
+        stall.id,
+        toggleFavorite(stall.id),
+        magnifierController,
+        uiState,
+      );
+      showStallTooltip(stall);
+      context.onFavoriteChange();
     };
 
     /** Handles opening the modal for a clicked stall or group area from any context (map or magnifier). */
@@ -100,7 +310,7 @@ async function runApp() {
       if (clickedGroupArea?.dataset.rowId) {
         const rowId = clickedGroupArea.dataset.rowId;
         // Find the first stall in the row (top-most for vertical rows) and open its modal directly.
-        const stallsInRow = allStalls
+        const stallsInRow = context.allStalls
           .filter((s) => s.id.startsWith(rowId))
           .sort((a, b) => b.num - a.num); // Sort by number descending.
 
@@ -126,75 +336,331 @@ async function runApp() {
       elements.toggleMagnifierBtn,
       handleAreaClick, // Pass the centralized click handler
       mobileCheck,
+      () => {
+        magnifierCenter = magnifierController.isShown()
+          ? magnifierController.getCenter()
+          : null;
+        historySync.replace();
+      },
     );
     context.magnifierController = magnifierController;
 
     // --- UI Rendering ---
     renderStalls(allStalls, elements, magnifierController, uiState);
+    getFavoriteStallIds().forEach((id) =>
+      setFavoriteClass(id, true, magnifierController, uiState),
+    );
+    getVisitStatuses().forEach((status, id) =>
+      setVisitStatusClass(id, status, magnifierController, uiState),
+    );
     renderDebugBorders(elements.mapContainer);
+    if (isDebugMode) {
+      createCalibrationEditor(
+        elements.mapContainer,
+        locateStalls,
+        () => context.allStalls,
+      );
+    }
 
     // --- Event Listener Binding ---
     initializeModalEventListeners(context);
 
-    elements.searchInput.addEventListener('input', () => {
-      const searchTerm = elements.searchInput.value.toLowerCase().trim();
+    // The stall currently pulsing because its search result is hovered or active.
+    let pulsingStallId: string | null = null;
+    /**
+     * Moves the pulse highlight to a stall on the map (and its magnifier clones).
+     * @param stallId The stall to pulse, or null to stop pulsing.
+     */
+    const pulseStall = (stallId: string | null) => {
+      [pulsingStallId, stallId].forEach((id, i) => {
+        const area = id ? uiState.stallIdToElementMap.get(id) : undefined;
+        if (area) {
+          updateStallClass(
+            area,
+            'is-pulsing',
+            i === 1,
+            magnifierController,
+            uiState,
+          );
+        }
+      });
+      pulsingStallId = stallId;
+    };
 
-      // A set to track which rows (by ID) have at least one matching stall.
-      const matchingRowIds = new Set<string>();
+    // Created before the results panel, so it gets the arrow keys first while open.
+    createSearchAutocomplete(
+      elements.searchInput,
+      elements.searchSuggestions,
+      () => context.allStalls,
+    );
 
-      allStalls.forEach((stall) => {
-        const mainElement = document.querySelector(
-          `.stall-area[data-stall-id="${stall.id}"]`,
-        ) as HTMLElement;
-        if (!mainElement) return;
+    const searchResults = createSearchResults(
+      elements.searchResults,
+      elements.searchResultsCount,
+      elements.searchResultsList,
+      elements.searchInput,
+      {
+        onSelect: (stallId) => {
+          pulseStall(null);
+          openModal(stallId, context);
+        },
+        onHighlight: pulseStall,
+      },
+    );
 
-        let isMatch = false;
-        if (searchTerm !== '') {
-          const hasPromoUserMatch = stall.promoData.some((promo) =>
-            promo.promoUser.toLowerCase().includes(searchTerm),
-          );
-          const hasTagMatch = stall.promoTags.some((tag) =>
-            tag.toLowerCase().includes(searchTerm),
-          );
+    // The stalls and rows currently marked as search matches. Searches only touch the
+    // elements whose state changes.
+    let matchedStallIds = new Set<string>();
+    let matchedRowIds = new Set<string>();
+    // Every group area per row: on the map and in both magnifiers. Built on first search.
+    let groupAreasByRowId: Map<string, HTMLElement[]> | null = null;
+
+    /**
+     * Returns the group area elements of a row, building the registry on first use.
+     * @param rowId The row ID.
+     */
+    const getGroupAreas = (rowId: string): HTMLElement[] => {
+      if (!groupAreasByRowId) {
+        groupAreasByRowId = new Map();
+        document
+          .querySelectorAll<HTMLElement>('.stall-group-area[data-row-id]')
+          .forEach((area) => {
+            const id = area.dataset.rowId!;
+            if (!groupAreasByRowId!.has(id)) groupAreasByRowId!.set(id, []);
+            groupAreasByRowId!.get(id)!.push(area);
+          });
+      }
+      return groupAreasByRowId.get(rowId) ?? [];
+    };
 
-          isMatch =
-            stall.id.toLowerCase().includes(searchTerm) ||
-            stall.stallTitle.toLowerCase().includes(searchTerm) ||
-            hasPromoUserMatch ||
-            hasTagMatch;
+    /**
+     * Applies the search box, the "favorites only" switch and the tag facets to the
+     * map highlights, the results panel and the facet counts.
+     */
+    const applySearch = () => {
+      const query = parseQuery(elements.searchInput.value);
+      const queryResults = applyFavoritesFilter(
+        searchStalls(query, context.allStalls),
+      );
+      const results = isFiltering(elements.searchInput.value)
+        ? applyTagFilter(queryResults, tagFilter)
+        : null;
+      searchResults.render(results);
+      tagFacets.render(context.allStalls, queryResults);
+
+      const nextStallIds = new Set(results?.map(({ stall }) => stall.id));
+      const nextRowIds = new Set(
+        [...nextStallIds].map((id) => id.substring(0, 1)),
+      );
+
+      // Update the stalls that started or stopped matching. The class also goes on
+      // the clones, so the magnifier and the modal reflect the search even where
+      // the element is hidden on the main map (e.g., for grouped rows).
+      [...matchedStallIds, ...nextStallIds].forEach((id) => {
+        const isMatch = nextStallIds.has(id);
+        if (isMatch === matchedStallIds.has(id)) return;
+        const area = uiState.stallIdToElementMap.get(id);
+        if (area) {
+          updateStallClass(
+            area,
+            'is-search-match',
+            isMatch,
+            magnifierController,
+            uiState,
+          );
         }
+      });
 
-        // 1. Update the class on the individual stall element.
-        // This is crucial for the magnifier and the modal views to reflect the search result,
-        // even if the element is hidden on the main map (e.g., for grouped rows).
-        updateStallClass(
-          mainElement,
-          'is-search-match',
-          isMatch,
-          magnifierController,
-          uiState,
+      // Group areas match when any stall in their row does.
+      [...matchedRowIds, ...nextRowIds].forEach((rowId) => {
+        const hasMatch = nextRowIds.has(rowId);
+        if (hasMatch === matchedRowIds.has(rowId)) return;
+        getGroupAreas(rowId).forEach((area) =>
+          area.classList.toggle('is-search-match', hasMatch),
         );
+      });
+
+      matchedStallIds = nextStallIds;
+      matchedRowIds = nextRowIds;
+    };
+
+    const tagFacets = createTagFacetBar(
+      elements.tagFacets,
+      tagFilter,
+      applySearch,
+    );
+    elements.favoritesOnlyBtn.addEventListener('click', () => {
+      favoritesFilter.isOnly = !favoritesFilter.isOnly;
+      elements.favoritesOnlyBtn.setAttribute(
+        'aria-pressed',
+        String(favoritesFilter.isOnly),
+      );
+      applySearch();
+    });
+
+    // The route is planned on demand and drawn on the map and the magnifier.
+    createRoutePanel(
+      {
+        input: elements.routeInput,
+        planButton: elements.routePlanBtn,
+        addMatchesButton: elements.routeAddMatchesBtn,
+        clearButton: elements.routeClearBtn,
+        message: elements.routeMessage,
+        steps: elements.routeSteps,
+        overlayContainers: [
+          elements.mapContainer,
+          elements.magnifierStallLayer,
+        ],
+      },
+      () => context.allStalls,
+      () => elements.mapImage.naturalWidth / elements.mapImage.naturalHeight,
+      {
+        onSelect: (stallId) => openModal(stallId, context),
+        getMatchedStallIds: () => [...matchedStallIds],
+      },
+    );
+
+    // The check-off progress for the day, from the statuses set in the modal.
+    const visitProgress = createVisitProgress(
+      {
+        container: elements.visitProgress,
+        text: elements.visitProgressText,
+        bar: elements.visitProgressBar,
+        breakdown: elements.visitProgressBreakdown,
+        log: elements.visitLog,
+      },
+      () => context.allStalls,
+      (stallId) => openModal(stallId, context),
+    );
+    visitProgress.render();
 
-        // 2. If a match is found, record its row ID.
-        if (isMatch) {
-          matchingRowIds.add(stall.id.substring(0, 1));
+    // Wait for a pause in typing, so fast typists don't search on every keystroke.
+    let searchTimer = 0;
+    elements.searchInput.addEventListener('input', () => {
+      clearTimeout(searchTimer);
+      searchTimer = window.setTimeout(() => {
+        applySearch();
+        historySync.replace();
+      }, SEARCH_DEBOUNCE_MS);
+    });
+
+    /**
+     * Applies a state read from the URL: the query, the open stall, then the
+     * magnifier.
+     * @param state The state to apply.
+     */
+    const restoreUrlState = (state: UrlState) => {
+      if (elements.searchInput.value !== state.query) {
+        elements.searchInput.value = state.query;
+        applySearch();
+      }
+      const hasStall = context.allStalls.some((s) => s.id === state.stallId);
+      if (state.stallId && hasStall) {
+        if (state.stallId !== openStallId) openModal(state.stallId, context);
+      } else if (openStallId) {
+        closeModal(context);
+      }
+
+      // The modal hides the magnifier while open, and brings it back on close.
+      if (openStallId) return;
+      if (state.magnifier) {
+        magnifierController.showAt(state.magnifier.x, state.magnifier.y);
+        magnifierCenter = magnifierController.getCenter();
+      } else if (magnifierController.isShown()) {
+        magnifierController.hide();
+        magnifierCenter = null;
+      }
+    };
+
+    const historySync = createHistorySync(
+      () => ({
+        query: elements.searchInput.value,
+        stallId: openStallId,
+        magnifier: magnifierCenter,
+      }),
+      restoreUrlState,
+    );
+
+    elements.searchInput.value = initialUrlState.query;
+    applySearch();
+    // Place the magnifier first: opening a stall hides it until the modal closes.
+    if (initialUrlState.magnifier) {
+      const { x, y } = initialUrlState.magnifier;
+      magnifierController.showAt(x, y);
+      magnifierCenter = magnifierController.getCenter();
+    }
+    restoreUrlState(initialUrlState);
+
+    /**
+     * Re-fetches the stall data and applies any changes to the rendered map in place,
+     * keeping the search, the selection and an open modal intact.
+     * @returns True if fresh data was loaded.
+     */
+    const refreshStallData = async (): Promise<boolean> => {
+      const freshData = await dataSource.load();
+      if (freshData.length === 0) return false;
+
+      saveSnapshot(snapshotKey, freshData);
+      elements.dataStatusBanner.classList.add('hidden');
+
+      const nextStalls = processStalls(freshData);
+      if (isDebugMode) {
+        renderDiagnosticsPanel(
+          validateStallRows(freshData),
+          elements.mapContainer,
+        );
+      }
+      const diff = diffStalls(context.allStalls, nextStalls);
+      if (isEmptyDiff(diff)) return true;
+
+      // Read the open stall first: reconciling clears the selection of a removed one.
+      const shownStallId = openStallId;
+      context.allStalls = nextStalls;
+      getSearchIndex(nextStalls);
+      reconcileStalls(diff, elements, magnifierController, uiState);
+      diff.added.forEach((stall) => {
+        if (isFavorite(stall.id)) {
+          setFavoriteClass(stall.id, true, magnifierController, uiState);
         }
+        setVisitStatusClass(
+          stall.id,
+          getVisitStatus(stall.id),
+          magnifierController,
+          uiState,
+        );
       });
+      visitProgress.render();
+
+      // Re-apply the current search so new and changed stalls get their match state.
+      // Called directly: an input event would reopen the autocomplete suggestions.
+      applySearch();
+      historySync.replace();
+
+      // Refresh an open modal if its stall changed, or if stalls were added or
+      // removed (which can change its nav targets). Otherwise leave embeds alone.
+      if (shownStallId) {
+        if (diff.removed.some((s) => s.id === shownStallId)) {
+          closeModal(context);
+        } else if (
+          diff.changed.some((s) => s.id === shownStallId) ||
+          diff.added.length > 0 ||
+          diff.removed.length > 0
+        ) {
+          openModal(shownStallId, context);
+        }
+      }
+      return true;
+    };
 
-      // 3. Update the visible group area elements based on whether any stall in that row matched.
-      locateStalls.forEach((row) => {
-        const groupAreaElements = document.querySelectorAll(
-          `.stall-group-area[data-row-id="${row.id}"]`,
-        ) as NodeList;
-        groupAreaElements.forEach((groupAreaElement: Node) => {
-          const hasMatch = matchingRowIds.has(row.id);
-          (groupAreaElement as HTMLElement).classList.toggle(
-            'is-search-match',
-            hasMatch,
-          );
-        });
-      });
-    });
+    if (offlineSnapshot) {
+      showSnapshotBanner(elements, offlineSnapshot, refreshStallData);
+    }
+
+    // To keep the map in sync with sheet edits, add `?refresh=<seconds>` to the URL.
+    const refreshIntervalMs = resolveRefreshInterval(urlParams);
+    if (refreshIntervalMs > 0) {
+      startLiveRefresh(refreshIntervalMs, refreshStallData);
+    }
 
     /** Handles interactions on the main map, ignoring those on the magnifier. */
     const handleMainMapInteraction = (e: MouseEvent | TouchEvent) => {
@@ -234,42 +700,117 @@ async function runApp() {
       elements.instructionsEl.textContent =
         '點擊按鈕顯示/隱藏放大鏡並拖曳。點擊攤位(含放大鏡內)可看宣傳。';
 
-      // Desktop-only hover tooltips
-      document.addEventListener('mousemove', (e: MouseEvent) => {
-        if (uiState.selectedStallElement) return;
-        elements.tooltip.style.left = `${e.clientX + 15}px`;
-        elements.tooltip.style.top = `${e.clientY + 15}px`;
-      });
+      // The stall under the mouse, which the F key adds to the favorites.
+      let hoveredStallId: string | null = null;
 
+      // Desktop-only hover tooltips. They stay at the stall, rather than follow the
+      // mouse, so their favorite toggle can be clicked.
       elements.mapContainer.addEventListener('mouseover', (e: MouseEvent) => {
         const target = e.target as HTMLElement;
-        const stallArea = target.closest('.stall-area:not(.stall-group-area)');
+        const stallArea = target.closest(
+          '.stall-area:not(.stall-group-area)',
+        ) as HTMLElement | null;
         if (stallArea && !uiState.selectedStallElement) {
-          const stallId = (stallArea as HTMLElement).dataset.stallId;
-          const stall = allStalls.find((s) => s.id === stallId);
+          const stallId = stallArea.dataset.stallId;
+          const stall = context.allStalls.find((s) => s.id === stallId);
+          hoveredStallId = stall?.id ?? null;
           if (stall) {
-            const promoUsers = stall.promoData
-              ?.map((o) => o.promoUser)
-              .filter((value, index, self) => self.indexOf(value) === index)
-              .join(',');
-            elements.tooltip.innerHTML = `<strong>${stall.stallTitle}</strong><br><small>${stall.id}${promoUsers ? ` / ${promoUsers}` : ''}</small>`;
-            elements.tooltip.classList.remove('hidden');
+            showStallTooltip(stall);
+            placeTooltipBeside(stallArea);
           }
         }
       });
 
       elements.mapContainer.addEventListener('mouseout', (e: MouseEvent) => {
         const target = e.target as HTMLElement;
+        // Moving onto the tooltip keeps it, to reach its favorite toggle.
+        if (elements.tooltip.contains(e.relatedTarget as Node | null)) return;
         if (target.classList.contains('stall-area')) {
+          hoveredStallId = null;
           elements.tooltip.classList.add('hidden');
         }
       });
 
+      elements.tooltip.addEventListener('mouseleave', () => {
+        hoveredStallId = null;
+        elements.tooltip.classList.add('hidden');
+      });
+
+      elements.tooltip.addEventListener('click', (e) => {
+        const toggle = (e.target as HTMLElement).closest(
+          '.tooltip-favorite-toggle',
+        ) as HTMLElement | null;
+        const stall = context.allStalls.find(
+          (s) => s.id === toggle?.dataset.stallId,
+        );
+        if (stall) toggleStallFavorite(stall);
+      });
+
+      // F toggles the favorite of the stall under the keyboard cursor or the mouse.
+      // The modal handles the key itself while open.
+      document.addEventListener('keydown', (e) => {
+        if (
+          e.key !== 'f' ||
+          e.ctrlKey ||
+          e.metaKey ||
+          e.altKey ||
+          openStallId !== null ||
+          isEditableTarget(e.target)
+        ) {
+          return;
+        }
+        const stallId = mapCursor?.getStallId() ?? hoveredStallId;
+        const stall = context.allStalls.find((s) => s.id === stallId);
+        if (stall) toggleStallFavorite(stall);
+      });
+
       // Use mousedown for a responsive click feel on desktop.
       elements.mapContainer.addEventListener(
         'mousedown',
         handleMainMapInteraction,
       );
+
+      // Arrow keys move a cursor over the focused map; the tooltip and the
+      // magnifier follow it.
+      mapCursor = createMapCursor(
+        elements.mapContainer,
+        () => context.allStalls,
+        {
+          onMove: (stall, previousId) => {
+            [previousId, stall?.id].forEach((id, i) => {
+              const area = id ? uiState.stallIdToElementMap.get(id) : undefined;
+              if (area) {
+                updateStallClass(
+                  area,
+                  'is-cursor',
+                  i === 1,
+                  magnifierController,
+                  uiState,
+                );
+              }
+            });
+            if (!stall) {
+              elements.tooltip.classList.add('hidden');
+              return;
+            }
+            const { top, left, width, height } = stall.numericCoords;
+            showStallTooltip(stall);
+            const area = uiState.stallIdToElementMap.get(stall.id);
+            if (area) placeTooltipBeside(area);
+            magnifierController.keepInView(left + width / 2, top + height / 2);
+          },
+          onOpen: (stallId) => openModal(stallId, context),
+          // While filtering, only the matches are visited, even when there are none.
+          isNavigable: (stall) =>
+            !isFiltering(elements.searchInput.value) ||
+            matchedStallIds.has(stall.id),
+          getStartStallId: () =>
+            isFiltering(elements.searchInput.value)
+              ? (matchedStallIds.values().next().value ?? null)
+              : (context.allStalls[0]?.id ?? null),
+          isModalOpen: () => openStallId !== null,
+        },
+      );
     }
   } catch (error) {
     console.error('Failed to initialize app:', error);
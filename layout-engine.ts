@@ -0,0 +1,122 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { locateStalls } from './event-config.ts';
+import type { LocateStall, RowLayout, StallData } from './types.ts';
+
+// Convert the locateStalls array into a Map for efficient O(1) lookups by row ID.
+const locateStallMap = new Map(locateStalls.map((s) => [s.id, s]));
+
+/**
+ * Returns true if the row with the given ID is a vertical column.
+ * @param rowId The row ID, e.g. "狗".
+ */
+export function isVerticalRow(rowId: string): boolean {
+  return locateStallMap.get(rowId)?.layout.direction === 'up';
+}
+
+/**
+ * Returns true if a stall number lies on the return line of a serpentine row,
+ * where the numbers run back towards the row's template stall.
+ * @param rowId The row ID, e.g. "A".
+ * @param num The stall number within the row.
+ */
+export function isOnReturnLine(rowId: string, num: number): boolean {
+  const serpentine = locateStallMap.get(rowId)?.layout.serpentine;
+  return !!serpentine && num > serpentine.wrapAfter;
+}
+
+/**
+ * Resolves where a stall number sits within its row.
+ * @param layout The row's layout spec.
+ * @param startNum The number of the row's template stall.
+ * @param num The stall number.
+ * @returns The line (0 for the template's line, 1 for the serpentine return line),
+ *   the slot index along that line, and whether numbers run reversed on that line.
+ */
+function resolveSlot(
+  layout: RowLayout,
+  startNum: number,
+  num: number,
+): { line: number; slot: number; isReversed: boolean } {
+  const { serpentine } = layout;
+  if (serpentine && num > serpentine.wrapAfter) {
+    // On the return line the slots count back towards the template stall.
+    return { line: 1, slot: 2 * serpentine.wrapAfter - num, isReversed: true };
+  }
+
+  const shared = (layout.sharedSlots ?? [])
+    .filter((range) => range.from <= num)
+    .sort((a, b) => b.from - a.from)[0];
+  if (shared) {
+    const slot =
+      num <= shared.to ? shared.slot : shared.slot + (num - shared.to);
+    return { line: 0, slot, isReversed: false };
+  }
+
+  return { line: 0, slot: num - startNum, isReversed: false };
+}
+
+/**
+ * Computes the position of a stall on the map from its row's template and layout spec.
+ * @param row The template for the stall's row/column.
+ * @param num The stall number within the row.
+ * @param stallCnt How many table spaces the stall occupies.
+ * @returns The string-based and numeric coordinates of the stall's area.
+ */
+export function computeStallCoords(
+  row: LocateStall,
+  num: number,
+  stallCnt: number,
+): Pick<StallData, 'coords' | 'numericCoords'> {
+  const { coords: template, layout } = row;
+  const isVertical = layout.direction === 'up';
+  const { line, slot, isReversed } = resolveSlot(layout, row.num, num);
+
+  // The size of one table along the row, and across it.
+  const unit = isVertical ? template.height : template.width;
+  const crossUnit = isVertical ? template.width : template.height;
+
+  const gap =
+    layout.gaps?.find(
+      (range) =>
+        range.from <= num && (range.to === undefined || num <= range.to),
+    )?.size ?? 0;
+
+  // Distance from the template stall in the direction of advance. A stall spanning
+  // several tables grows in the direction its numbers advance, so on the template's
+  // line its leading edge moves further along; on the reversed line it doesn't.
+  let along = slot * unit + gap;
+  if (!isReversed && stallCnt > 1) {
+    along += (stallCnt - 1) * unit;
+  }
+  const across =
+    line === 0 ? 0 : line * (crossUnit + (layout.serpentine?.lineGap ?? 0));
+
+  const round = (value: number) => parseFloat(value.toFixed(2));
+  const numericCoords = isVertical
+    ? {
+        top: round(template.top - along),
+        left: round(template.left - across),
+        width: template.width,
+        height: template.height * stallCnt,
+      }
+    : {
+        top: round(template.top - across),
+        left: round(template.left - along),
+        width: template.width * stallCnt,
+        height: template.height,
+      };
+
+  return {
+    coords: {
+      top: `${numericCoords.top}%`,
+      left: `${numericCoords.left}%`,
+      width: `${numericCoords.width}%`,
+      height: `${numericCoords.height}%`,
+    },
+    numericCoords,
+  };
+}
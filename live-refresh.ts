@@ -0,0 +1,124 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { StallData } from './types.ts';
+
+/** The difference between two sets of processed stalls, matched by stall ID. */
+export interface StallDiff {
+  /** Stalls that exist only in the new set. */
+  added: StallData[];
+  /** Stalls that exist only in the old set. */
+  removed: StallData[];
+  /** Stalls that exist in both sets but whose data differs (new versions). */
+  changed: StallData[];
+}
+
+/**
+ * Compares two sets of processed stalls.
+ * @param previous The stalls currently rendered.
+ * @param next The freshly processed stalls.
+ * @returns The stalls that were added, removed or changed.
+ */
+export function diffStalls(
+  previous: StallData[],
+  next: StallData[],
+): StallDiff {
+  const previousById = new Map(previous.map((s) => [s.id, s]));
+  const nextIds = new Set(next.map((s) => s.id));
+  const diff: StallDiff = { added: [], removed: [], changed: [] };
+
+  next.forEach((stall) => {
+    const old = previousById.get(stall.id);
+    if (!old) {
+      diff.added.push(stall);
+    } else if (JSON.stringify(old) !== JSON.stringify(stall)) {
+      diff.changed.push(stall);
+    }
+  });
+  previous.forEach((stall) => {
+    if (!nextIds.has(stall.id)) diff.removed.push(stall);
+  });
+
+  return diff;
+}
+
+/**
+ * Returns true if the diff contains no changes at all.
+ * @param diff The diff to check.
+ */
+export function isEmptyDiff(diff: StallDiff): boolean {
+  return (
+    diff.added.length === 0 &&
+    diff.removed.length === 0 &&
+    diff.changed.length === 0
+  );
+}
+
+/**
+ * Reads the background refresh interval. `?refresh=<seconds>` wins over the
+ * `VITE_REFRESH_INTERVAL_SECONDS` env variable. Refreshing is off unless one is set.
+ * @param urlParams The current page's URL parameters.
+ * @returns The interval in milliseconds, or 0 if refreshing is disabled.
+ */
+export function resolveRefreshInterval(urlParams: URLSearchParams): number {
+  const raw =
+    urlParams.get('refresh') ?? import.meta.env.VITE_REFRESH_INTERVAL_SECONDS;
+  const seconds = Number(raw);
+  if (!raw || !Number.isFinite(seconds) || seconds <= 0) return 0;
+  // Don't hammer the sheet, whatever the configuration says.
+  return Math.max(seconds, 15) * 1000;
+}
+
+/**
+ * Periodically runs a refresh callback. Polling pauses while the page is hidden
+ * and a refresh is run as soon as it becomes visible again.
+ * @param intervalMs The delay between refreshes.
+ * @param refresh The callback that re-fetches and applies the data.
+ * @returns A function that stops the polling.
+ */
+export function startLiveRefresh(
+  intervalMs: number,
+  refresh: () => Promise<unknown>,
+): () => void {
+  let timerId = 0;
+  let isRunning = false;
+  let isStopped = false;
+
+  const schedule = () => {
+    window.clearTimeout(timerId);
+    if (isStopped || document.hidden) return;
+    timerId = window.setTimeout(tick, intervalMs);
+  };
+
+  const tick = async () => {
+    if (isRunning) return;
+    isRunning = true;
+    try {
+      await refresh();
+    } catch (error) {
+      console.warn('Background refresh of stall data failed:', error);
+    } finally {
+      isRunning = false;
+      schedule();
+    }
+  };
+
+  const onVisibilityChange = () => {
+    if (document.hidden) {
+      window.clearTimeout(timerId);
+    } else {
+      tick();
+    }
+  };
+
+  document.addEventListener('visibilitychange', onVisibilityChange);
+  schedule();
+
+  return () => {
+    isStopped = true;
+    window.clearTimeout(timerId);
+    document.removeEventListener('visibilitychange', onVisibilityChange);
+  };
+}
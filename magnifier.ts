@@ -3,8 +3,7 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-import { locateStalls } from './official-data.ts';
-import { allRowIds } from './navigation.ts';
+import { locateStalls, rowOrder } from './event-config.ts';
 
 /**
  * An interface for the controller object returned by createMagnifier.
@@ -13,6 +12,10 @@ import { allRowIds } from './navigation.ts';
 export interface MagnifierController {
   /** Adds a stall element and its clone to the magnifier system. */
   addStall: (stallElement: HTMLElement) => void;
+  /** Replaces a stall's clone with a fresh copy of the (updated) original element. */
+  syncStall: (stallId: string) => void;
+  /** Removes a stall's clone and forgets the original element. */
+  removeStall: (stallId: string) => void;
   /** Adds a group area element and its clone to the magnifier's stall layer. */
   addGroupArea: (groupElement: HTMLElement) => void;
   /** Updates a class on both the original stall and its clone using the stall's ID. */
@@ -29,6 +32,12 @@ export interface MagnifierController {
   toggle: () => void;
   /** Returns true if the magnifier is currently visible. */
   isShown: () => boolean;
+  /** Returns the center of the lens, in percent of the map's width and height. */
+  getCenter: () => { x: number; y: number };
+  /** Shows the magnifier with its lens centered on a point, in map percent. */
+  showAt: (x: number, y: number) => void;
+  /** If the magnifier is shown, pans it just enough to keep a point (in map percent) in view. */
+  keepInView: (x: number, y: number) => void;
 }
 
 /**
@@ -45,6 +54,7 @@ export interface MagnifierController {
  * @param toggleButton The button to show/hide the magnifier.
  * @param onAreaClick A callback function to execute when a stall or group area inside the magnifier is clicked.
  * @param isMobile A boolean indicating if the current device is mobile.
+ * @param onViewChange Called after the user moves, shows or hides the magnifier.
  * @returns A controller object to interact with the magnifier.
  */
 export function createMagnifier(
@@ -57,6 +67,7 @@ export function createMagnifier(
   toggleButton: HTMLElement,
   onAreaClick: (target: HTMLElement) => void,
   isMobile: boolean,
+  onViewChange?: () => void,
 ): MagnifierController {
   // --- State and Configuration ---
   const zoomFactor = isMobile ? 3.5 : 2.5; // Use a higher zoom for mobile.
@@ -131,12 +142,14 @@ export function createMagnifier(
     }
 
     if (closestRowData) {
-      const currentIndex = allRowIds.indexOf(closestRowData.id);
+      const currentIndex = rowOrder.indexOf(closestRowData.id);
       indicators.current.textContent = closestRowData.id;
       indicators.prev.textContent =
-        currentIndex > 0 ? allRowIds[currentIndex - 1] : '';
+        currentIndex > 0 ? rowOrder[currentIndex - 1] : '';
       indicators.next.textContent =
-        currentIndex < allRowIds.length - 1 ? allRowIds[currentIndex + 1] : '';
+        currentIndex !== -1 && currentIndex < rowOrder.length - 1
+          ? rowOrder[currentIndex + 1]
+          : '';
     } else {
       // This case is a fallback, but should not be reached with the current logic.
       indicators.current.textContent = '';
@@ -268,6 +281,10 @@ export function createMagnifier(
     document.removeEventListener('mouseup', onDragEnd);
     document.removeEventListener('touchend', onDragEnd);
 
+    if (dragHappened) {
+      onViewChange?.();
+    }
+
     // If no significant movement happened, it's a click.
     if (!dragHappened && clickTarget) {
       const clickedArea = clickTarget.closest('.stall-area');
@@ -326,8 +343,56 @@ export function createMagnifier(
     }
   };
 
+  /**
+   * Shows the magnifier with its lens centered on a point of the map.
+   * @param x The point's horizontal position, in percent of the map width.
+   * @param y The point's vertical position, in percent of the map height.
+   */
+  const showAt = (x: number, y: number) => {
+    hasBeenPositioned = true; // Skip the default centering in show().
+    show();
+    setPosition(
+      (mapContainer.offsetWidth * x) / 100 - magnifierWrapper.offsetWidth / 2,
+      (mapContainer.offsetHeight * y) / 100 - magnifierWrapper.offsetHeight / 2,
+    );
+  };
+
+  /**
+   * Pans a shown magnifier just enough to bring a point of the map into the middle
+   * part of the lens. Nothing moves while the point is already there.
+   * @param x The point's horizontal position, in percent of the map width.
+   * @param y The point's vertical position, in percent of the map height.
+   */
+  const keepInView = (x: number, y: number) => {
+    if (!isShownState) return;
+    const lensWidth = magnifierWrapper.offsetWidth;
+    const lensHeight = magnifierWrapper.offsetHeight;
+    // The lens shows the map around its center, shrunk by the zoom factor. Keep
+    // the point within the middle 60% of that.
+    const reachX = (lensWidth / 2 / zoomFactor) * 0.6;
+    const reachY = (lensHeight / 2 / zoomFactor) * 0.6;
+    const dx =
+      (mapContainer.offsetWidth * x) / 100 -
+      (magnifierWrapper.offsetLeft + lensWidth / 2);
+    const dy =
+      (mapContainer.offsetHeight * y) / 100 -
+      (magnifierWrapper.offsetTop + lensHeight / 2);
+    const shiftX = Math.sign(dx) * Math.max(0, Math.abs(dx) - reachX);
+    const shiftY = Math.sign(dy) * Math.max(0, Math.abs(dy) - reachY);
+    if (shiftX === 0 && shiftY === 0) return;
+
+    setPosition(
+      magnifierWrapper.offsetLeft + shiftX,
+      magnifierWrapper.offsetTop + shiftY,
+    );
+    onViewChange?.();
+  };
+
   // --- Event Listeners ---
-  toggleButton.addEventListener('click', toggle);
+  toggleButton.addEventListener('click', () => {
+    toggle();
+    onViewChange?.();
+  });
   // Listen for both mouse and touch start events on the magnifier.
   magnifierWrapper.addEventListener('mousedown', onDragStart);
   magnifierWrapper.addEventListener('touchstart', onDragStart, {
@@ -345,6 +410,19 @@ export function createMagnifier(
       stallIdToOriginalMap.set(stallId, stallElement);
       stallIdToCloneMap.set(stallId, clone);
     },
+    syncStall: (stallId: string) => {
+      const original = stallIdToOriginalMap.get(stallId);
+      const clone = stallIdToCloneMap.get(stallId);
+      if (!original || !clone) return;
+      const freshClone = original.cloneNode(true) as HTMLElement;
+      clone.replaceWith(freshClone);
+      stallIdToCloneMap.set(stallId, freshClone);
+    },
+    removeStall: (stallId: string) => {
+      stallIdToCloneMap.get(stallId)?.remove();
+      stallIdToCloneMap.delete(stallId);
+      stallIdToOriginalMap.delete(stallId);
+    },
     addGroupArea: (groupElement: HTMLElement) => {
       const clone = groupElement.cloneNode(true) as HTMLElement;
       magnifierStallLayer.appendChild(clone);
@@ -366,6 +444,18 @@ export function createMagnifier(
     hide,
     toggle,
     isShown: () => isShownState,
+    getCenter: () => ({
+      x:
+        ((magnifierWrapper.offsetLeft + magnifierWrapper.offsetWidth / 2) /
+          mapContainer.offsetWidth) *
+        100,
+      y:
+        ((magnifierWrapper.offsetTop + magnifierWrapper.offsetHeight / 2) /
+          mapContainer.offsetHeight) *
+        100,
+    }),
+    showAt,
+    keepInView,
   };
 
   return controller;
@@ -0,0 +1,128 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { getNavigationGraph } from './navigation.ts';
+import type { Direction } from './navigation.ts';
+import type { StallData } from './types.ts';
+
+const DIRECTIONS_BY_KEY: Record<string, Direction> = {
+  ArrowUp: 'up',
+  ArrowDown: 'down',
+  ArrowLeft: 'left',
+  ArrowRight: 'right',
+};
+
+/** Callbacks through which the map cursor talks to the rest of the app. */
+export interface MapCursorHandlers {
+  /**
+   * Called when the cursor moves, to mark the stalls and follow the new one.
+   * @param stall The stall now under the cursor, or null if the cursor was removed.
+   * @param previousId The stall the cursor left, if any.
+   */
+  onMove: (stall: StallData | null, previousId: string | null) => void;
+  /** Called with the stall under the cursor when Enter is pressed. */
+  onOpen: (stallId: string) => void;
+  /** Limits the stalls the cursor visits, e.g. to search matches. */
+  isNavigable: (stall: StallData) => boolean;
+  /** Returns the stall the cursor starts on, when the first arrow key is pressed. */
+  getStartStallId: () => string | null;
+  /** Returns true while the modal is open; the map ignores keys meanwhile. */
+  isModalOpen: () => boolean;
+}
+
+/** The public API of the map cursor. */
+export interface MapCursorController {
+  /** Hides the cursor while the modal shows a stall, remembering it was in use. */
+  suspend: () => void;
+  /**
+   * Brings a suspended cursor back once the modal closes, and refocuses the map.
+   * @param stallId The stall the modal showed last, which the cursor moves to.
+   */
+  resume: (stallId: string | null) => void;
+  /** Returns the stall under the cursor, or null when there's no cursor. */
+  getStallId: () => string | null;
+}
+
+/**
+ * Makes the main map keyboard-operable: it becomes focusable, the arrow keys move a
+ * cursor between stalls along the rows (the same moves as the modal's arrows, and
+ * only to search matches while searching), Enter opens the stall under the cursor
+ * and Escape removes the cursor.
+ * @param mapContainer The map container, which receives focus and the keys.
+ * @param getStalls Returns the current stalls.
+ * @param handlers Callbacks for showing the cursor and opening stalls.
+ * @returns A controller to hand the cursor over to and back from the modal.
+ */
+export function createMapCursor(
+  mapContainer: HTMLElement,
+  getStalls: () => StallData[],
+  handlers: MapCursorHandlers,
+): MapCursorController {
+  let cursorId: string | null = null;
+  let isSuspended = false;
+
+  mapContainer.tabIndex = 0;
+  mapContainer.setAttribute(
+    'aria-label',
+    '攤位地圖：以方向鍵選擇攤位，按 Enter 查看詳情',
+  );
+
+  /**
+   * Moves the cursor to a stall.
+   * @param stallId The stall, or null to remove the cursor.
+   */
+  const moveTo = (stallId: string | null) => {
+    const stall = stallId
+      ? (getStalls().find((s) => s.id === stallId) ?? null)
+      : null;
+    const previousId = cursorId;
+    cursorId = stall?.id ?? null;
+    handlers.onMove(stall, previousId);
+  };
+
+  mapContainer.addEventListener('keydown', (e) => {
+    if (handlers.isModalOpen() || e.altKey || e.ctrlKey || e.metaKey) return;
+
+    const direction = DIRECTIONS_BY_KEY[e.key];
+    if (direction) {
+      e.preventDefault();
+      if (!cursorId) {
+        moveTo(handlers.getStartStallId());
+        return;
+      }
+      const nextId = getNavigationGraph(getStalls()).neighbors(
+        cursorId,
+        direction,
+        handlers.isNavigable,
+      )[0];
+      if (nextId) moveTo(nextId);
+    } else if (e.key === 'Enter' && cursorId) {
+      e.preventDefault();
+      handlers.onOpen(cursorId);
+    } else if (e.key === 'Escape' && cursorId) {
+      moveTo(null);
+    }
+  });
+
+  // Leaving the map (e.g. tabbing on to the page below) takes the cursor along.
+  mapContainer.addEventListener('blur', () => {
+    if (!isSuspended && cursorId) moveTo(null);
+  });
+
+  return {
+    suspend: () => {
+      if (!cursorId) return;
+      isSuspended = true;
+      moveTo(null);
+    },
+    resume: (stallId) => {
+      if (!isSuspended) return;
+      isSuspended = false;
+      mapContainer.focus({ preventScroll: true });
+      moveTo(stallId);
+    },
+    getStallId: () => cursorId,
+  };
+}
@@ -0,0 +1,134 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { foldChar } from './text-normalize.ts';
+
+// Subtrees whose text is left alone: links, scripts, and embeds. Embed scripts
+// replace their markup (usually a classed blockquote) with an iframe, which would
+// detach any highlight inside it.
+const SKIPPED_SELECTOR =
+  'a, iframe, script, style, blockquote[class], [class*="embed"]';
+
+/**
+ * Returns true if the text inside an element is left alone.
+ * @param element The element.
+ */
+function isSkipped(element: Element): boolean {
+  return (
+    element.matches(SKIPPED_SELECTOR) ||
+    // Embed markup also marks itself with attributes like `data-embed-id`.
+    element
+      .getAttributeNames()
+      .some((name) => name.startsWith('data-') && name.includes('embed'))
+  );
+}
+
+/**
+ * Finds where search terms occur in a text. The text is folded the same way search
+ * terms are, so "簡體" is found for the term "简体" and "ＡＢＣ" for "abc".
+ * @param text The text to search.
+ * @param terms The normalised search terms.
+ * @returns The matched [start, end) offsets in the original text, sorted and merged.
+ */
+export function findMatchRanges(
+  text: string,
+  terms: string[],
+): [number, number][] {
+  // For every UTF-16 unit of the folded text, the original character it came from.
+  const starts: number[] = [];
+  const ends: number[] = [];
+  let folded = '';
+  let offset = 0;
+  for (const char of text) {
+    const foldedChar = foldChar(char);
+    for (let i = 0; i < foldedChar.length; i++) {
+      starts.push(offset);
+      ends.push(offset + char.length);
+    }
+    folded += foldedChar;
+    offset += char.length;
+  }
+
+  const ranges: [number, number][] = [];
+  terms
+    .filter((term) => term.length > 0)
+    .forEach((term) => {
+      let index = folded.indexOf(term);
+      while (index !== -1) {
+        ranges.push([starts[index], ends[index + term.length - 1]]);
+        index = folded.indexOf(term, index + term.length);
+      }
+    });
+
+  ranges.sort((a, b) => a[0] - b[0]);
+  const merged: [number, number][] = [];
+  ranges.forEach(([start, end]) => {
+    const last = merged[merged.length - 1];
+    if (last && start <= last[1]) {
+      last[1] = Math.max(last[1], end);
+    } else {
+      merged.push([start, end]);
+    }
+  });
+  return merged;
+}
+
+/**
+ * Wraps every occurrence of the search terms in the text of an element with a
+ * `<mark class="search-highlight">`. Only text nodes are touched, and links and
+ * embeds are skipped, so the markup around them keeps working.
+ * @param root The element to highlight inside.
+ * @param terms The normalised search terms.
+ * @returns The created highlight elements, in document order.
+ */
+export function highlightMatches(
+  root: HTMLElement,
+  terms: string[],
+): HTMLElement[] {
+  if (terms.length === 0) return [];
+
+  const walker = document.createTreeWalker(
+    root,
+    NodeFilter.SHOW_ELEMENT | NodeFilter.SHOW_TEXT,
+    {
+      acceptNode: (node) =>
+        node instanceof Element && isSkipped(node)
+          ? NodeFilter.FILTER_REJECT
+          : NodeFilter.FILTER_ACCEPT,
+    },
+  );
+  const textNodes: Text[] = [];
+  while (walker.nextNode()) {
+    if (walker.currentNode instanceof Text) textNodes.push(walker.currentNode);
+  }
+
+  const highlights: HTMLElement[] = [];
+  textNodes.forEach((node) => {
+    const text = node.data;
+    const ranges = findMatchRanges(text, terms);
+    if (ranges.length === 0) return;
+
+    const fragment = document.createDocumentFragment();
+    let offset = 0;
+    ranges.forEach(([start, end]) => {
+      if (start > offset) {
+        fragment.appendChild(
+          document.createTextNode(text.slice(offset, start)),
+        );
+      }
+      const mark = document.createElement('mark');
+      mark.className = 'search-highlight';
+      mark.textContent = text.slice(start, end);
+      fragment.appendChild(mark);
+      highlights.push(mark);
+      offset = end;
+    });
+    if (offset < text.length) {
+      fragment.appendChild(document.createTextNode(text.slice(offset)));
+    }
+    node.replaceWith(fragment);
+  });
+  return highlights;
+}
@@ -7,12 +7,32 @@ import type { StallData } from './types.ts';
 import type { DOMElements } from './dom-elements.ts';
 import type { MagnifierController } from './magnifier.ts';
 import {
-  allRowIds,
-  getAdjacentStallId,
   getNavigableStalls,
+  getNavigationGraph,
+  isFiltering,
+  sortByReadingOrder,
 } from './navigation.ts';
-import { locateStalls } from './official-data.ts';
-import { clearSelection, updateStallClass, UIState } from './ui-manager.ts';
+import type { MatchOrder } from './navigation.ts';
+import { isVerticalRow } from './layout-engine.ts';
+import { formatStallLabel } from './stall-id.ts';
+import { matchStall, parseQuery } from './search.ts';
+import { tagFilter } from './tag-facets.ts';
+import { isFavorite, toggleFavorite } from './favorites.ts';
+import { getVisitStatus, setVisitStatus } from './visit-status.ts';
+import type { VisitStatus } from './visit-status.ts';
+import { highlightMatches } from './match-highlighter.ts';
+import { escapeHtml, escapeQuotes } from './html-escape.ts';
+import { normalizeText } from './text-normalize.ts';
+import { locateStalls, rowOrder } from './event-config.ts';
+import {
+  clearSelection,
+  isEditableTarget,
+  setFavoriteClass,
+  setVisitStatusClass,
+  updateStallClass,
+  UIState,
+} from './ui-manager.ts';
+import { attachSwipeGestures } from './swipe-gesture.ts';
 
 declare global {
   interface Window {
@@ -36,6 +56,12 @@ interface ModalContext {
   magnifierController: MagnifierController | null;
   uiState: UIState;
   isMobile: boolean;
+  /** Called after the modal opens a stall (its ID) or closes (null). */
+  onModalChange?: (stallId: string | null) => void;
+  /** Called after the stall shown is added to or removed from the favorites. */
+  onFavoriteChange?: (stallId: string) => void;
+  /** Called after the visit status of the stall shown is changed. */
+  onVisitStatusChange?: (stallId: string) => void;
 }
 
 // Module-level state for the modal
@@ -53,8 +79,223 @@ const modalState = {
   animationFrameId: 0,
   targetBgX: 0,
   targetBgY: 0,
+  // Search highlights in the open modal, and the one "next match" last scrolled to
+  highlights: [] as HTMLElement[],
+  currentHighlightIndex: -1,
+  // The search matches the header steps through (best first), the order they're
+  // stepped through in, and their IDs in that order
+  matchStalls: [] as StallData[],
+  matchOrder: 'ranked' as MatchOrder,
+  matchIds: [] as string[],
+  // The mini-map's zoom relative to its default, changed by pinching
+  zoomScale: 1,
+  isPinching: false,
+  pinchStartDistance: 0,
+  pinchStartScale: 1,
+  // The unscaled map point under the pinch, which stays under the fingers
+  pinchMapX: 0,
+  pinchMapY: 0,
+  // The pan's speed (px/ms) at release, for the momentum glide
+  lastMoveX: 0,
+  lastMoveY: 0,
+  lastMoveTime: 0,
+  velocityX: 0,
+  velocityY: 0,
 };
 
+// How far the mini-map can be pinched, relative to its default zoom.
+const MIN_ZOOM_SCALE = 0.5;
+const MAX_ZOOM_SCALE = 2.5;
+// The share of its speed a gliding mini-map keeps every 16ms, and the speed
+// (px/ms) at which it stops.
+const MOMENTUM_FRICTION = 0.92;
+const MIN_GLIDE_SPEED = 0.02;
+
+/**
+ * Returns the mini-map's current zoom: the default for the device, times the
+ * user's pinch zoom.
+ * @param context The application context.
+ */
+function getModalZoomFactor(context: ModalContext): number {
+  return (context.isMobile ? 4.5 : 1.8) * modalState.zoomScale;
+}
+
+/**
+ * Collects the terms to highlight in a stall's modal: the search terms the stall
+ * matched (row qualifiers aside, as they name no text), plus the selected tag facets.
+ * @param stall The stall shown in the modal.
+ * @param searchTerm The current value from the search input.
+ * @returns The normalised terms.
+ */
+function getHighlightTerms(stall: StallData, searchTerm: string): string[] {
+  const reasons = matchStall(parseQuery(searchTerm), stall) ?? [];
+  const terms = new Set(
+    reasons.filter((r) => r.field !== 'row').map((r) => r.term)
+  );
+  tagFilter.tags.forEach((tag) => {
+    if (stall.promoTags.includes(tag)) terms.add(normalizeText(tag));
+  });
+  return [...terms];
+}
+
+/**
+ * Drops the highlights no longer in the page, e.g. inside markup an embed script
+ * replaced, keeping the current one current.
+ */
+function pruneHighlights() {
+  const current = modalState.highlights[modalState.currentHighlightIndex];
+  modalState.highlights = modalState.highlights.filter(
+    (mark) => mark.isConnected
+  );
+  modalState.currentHighlightIndex = current
+    ? modalState.highlights.indexOf(current)
+    : -1;
+}
+
+/**
+ * Updates the "next match" button for the current highlights: hidden when there
+ * are none, otherwise showing which one is current.
+ * @param elements A reference to all DOM elements.
+ */
+function updateNextMatchButton(elements: DOMElements) {
+  pruneHighlights();
+  const { highlights, currentHighlightIndex } = modalState;
+  elements.modalNextMatch.classList.toggle('hidden', highlights.length === 0);
+  elements.modalNextMatch.textContent = `下一個符合 ${
+    currentHighlightIndex + 1
+  }/${highlights.length}`;
+}
+
+/**
+ * Scrolls to the next search highlight in the modal, wrapping around at the end.
+ * @param elements A reference to all DOM elements.
+ */
+function showNextMatch(elements: DOMElements) {
+  pruneHighlights();
+  const { highlights } = modalState;
+  if (highlights.length === 0) return;
+
+  highlights[modalState.currentHighlightIndex]?.classList.remove('is-current');
+  modalState.currentHighlightIndex =
+    (modalState.currentHighlightIndex + 1) % highlights.length;
+  const highlight = highlights[modalState.currentHighlightIndex];
+  highlight.classList.add('is-current');
+  highlight.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  updateNextMatchButton(elements);
+}
+
+/**
+ * Updates the search match navigation in the modal header for the stall shown:
+ * hidden while nothing is searched, otherwise "n / m" in the chosen order.
+ * @param elements A reference to all DOM elements.
+ * @param stallId The stall shown in the modal.
+ */
+function updateMatchNav(elements: DOMElements, stallId: string) {
+  const { matchStalls, matchOrder } = modalState;
+  const ordered =
+    matchOrder === 'spatial' ? sortByReadingOrder(matchStalls) : matchStalls;
+  modalState.matchIds = ordered.map((s) => s.id);
+
+  // A stall opened from the mini-map may not be a match itself.
+  const index = modalState.matchIds.indexOf(stallId);
+  elements.modalMatchNav.classList.toggle('hidden', ordered.length === 0);
+  elements.modalMatchCounter.textContent = `${
+    index === -1 ? '–' : index + 1
+  } / ${ordered.length}`;
+  elements.modalMatchOrder.textContent =
+    matchOrder === 'spatial' ? '依位置' : '依相關度';
+  elements.modalMatchOrder.title =
+    matchOrder === 'spatial'
+      ? '依地圖位置由上而下、由左而右瀏覽；點擊改依相關度'
+      : '依搜尋相關度瀏覽；點擊改依地圖位置';
+}
+
+/**
+ * Shows whether the stall in the modal is a favorite on the header's star.
+ * @param elements A reference to all DOM elements.
+ * @param stallId The stall shown in the modal.
+ */
+function updateFavoriteButton(elements: DOMElements, stallId: string) {
+  const isOn = isFavorite(stallId);
+  elements.modalFavorite.textContent = isOn ? '★' : '☆';
+  elements.modalFavorite.setAttribute('aria-pressed', String(isOn));
+  elements.modalFavorite.ariaLabel = isOn
+    ? '從我的最愛移除 (F)'
+    : '加入我的最愛 (F)';
+}
+
+/**
+ * Adds the stall shown in the modal to the favorites, or removes it, and marks it
+ * on the maps.
+ * @param context The application context.
+ */
+function toggleShownFavorite(context: ModalContext) {
+  const stallId = context.uiState.selectedStallElement?.dataset.stallId;
+  if (!stallId) return;
+  const isOn = toggleFavorite(stallId);
+  updateFavoriteButton(context.elements, stallId);
+  setFavoriteClass(stallId, isOn, context.magnifierController, context.uiState);
+  context.onFavoriteChange?.(stallId);
+}
+
+/**
+ * Marks the visit status of the stall in the modal as pressed.
+ * @param elements A reference to all DOM elements.
+ * @param stallId The stall shown in the modal.
+ */
+function updateVisitStatusButtons(elements: DOMElements, stallId: string) {
+  const status = getVisitStatus(stallId);
+  elements.modalVisitStatus
+    .querySelectorAll<HTMLElement>('.visit-status-option')
+    .forEach((button) =>
+      button.setAttribute(
+        'aria-pressed',
+        String(button.dataset.status === status)
+      )
+    );
+}
+
+/**
+ * Sets the visit status of the stall shown in the modal and marks it on the maps.
+ * Choosing the status it already has clears it.
+ * @param status The status chosen.
+ * @param context The application context.
+ */
+function chooseShownVisitStatus(status: VisitStatus, context: ModalContext) {
+  const stallId = context.uiState.selectedStallElement?.dataset.stallId;
+  if (!stallId) return;
+  const next = getVisitStatus(stallId) === status ? null : status;
+  setVisitStatus(stallId, next);
+  updateVisitStatusButtons(context.elements, stallId);
+  setVisitStatusClass(
+    stallId,
+    next,
+    context.magnifierController,
+    context.uiState
+  );
+  context.onVisitStatusChange?.(stallId);
+}
+
+/**
+ * Opens the next or previous search match, wrapping around at the ends. From a
+ * stall that isn't a match, it starts at the first (or last) one.
+ * @param step 1 for the next match, -1 for the previous one.
+ * @param context The application context.
+ */
+function stepThroughMatches(step: 1 | -1, context: ModalContext) {
+  const { matchIds } = modalState;
+  if (matchIds.length === 0) return;
+  const currentId = context.uiState.selectedStallElement?.dataset.stallId;
+  const index = currentId ? matchIds.indexOf(currentId) : -1;
+  const nextIndex =
+    index === -1
+      ? step > 0
+        ? 0
+        : matchIds.length - 1
+      : (index + step + matchIds.length) % matchIds.length;
+  openModal(matchIds[nextIndex], context);
+}
+
 /**
  * Opens a lightbox to display an enlarged version of an image.
  * @param src The source URL of the image to display.
@@ -82,7 +323,8 @@ function closeImageLightbox(elements: DOMElements) {
 /**
  * Updates the modal's row indicator. It prioritizes using the explicit `stall`
  * for accuracy when selecting, and falls back to a geometric calculation based
- * on the view's center when panning. It also hides the indicator for the '範' stall.
+ * on the view's center when panning. It also hides the indicator for rows
+ * outside the event's row order.
  * @param context The application context.
  * @param currentBgX The current horizontal background position of the map.
  * @param currentBgY The current vertical background position of the map.
@@ -94,7 +336,7 @@ function updateModalRowIndicator(
   currentBgY: number,
   stall?: StallData
 ) {
-  const { elements, isMobile } = context;
+  const { elements } = context;
   const { modalMagnifier, mapImage, modalMagnifierRowIndicatorContainer } =
     elements;
   const {
@@ -113,7 +355,7 @@ function updateModalRowIndicator(
     closestRowData = locateStalls.find((r) => r.id === rowId) ?? null;
   } else {
     // Priority 2 (Fallback for panning): Use geometric calculation based on view center.
-    const zoomFactor = isMobile ? 4.5 : 1.8;
+    const zoomFactor = getModalZoomFactor(context);
     const viewW = modalMagnifier.offsetWidth;
     const viewH = modalMagnifier.offsetHeight;
     const mapW = mapImage.offsetWidth;
@@ -150,19 +392,20 @@ function updateModalRowIndicator(
     }
   }
 
-  if (closestRowData && closestRowData.id === '範') {
+  // Rows outside the row order (e.g. a sample row) aren't part of the sequence.
+  if (closestRowData && !rowOrder.includes(closestRowData.id)) {
     modalMagnifierRowIndicatorCurrent.textContent = '';
     modalMagnifierRowIndicatorPrev.textContent = '';
     modalMagnifierRowIndicatorNext.textContent = '';
   } else {
     modalMagnifierRowIndicatorContainer.style.display = 'flex';
     if (closestRowData) {
-      const currentIndex = allRowIds.indexOf(closestRowData.id);
+      const currentIndex = rowOrder.indexOf(closestRowData.id);
       modalMagnifierRowIndicatorCurrent.textContent = closestRowData.id;
       modalMagnifierRowIndicatorPrev.textContent =
-        currentIndex > 0 ? allRowIds[currentIndex - 1] : '';
+        currentIndex > 0 ? rowOrder[currentIndex - 1] : '';
       modalMagnifierRowIndicatorNext.textContent =
-        currentIndex < allRowIds.length - 1 ? allRowIds[currentIndex + 1] : '';
+        currentIndex < rowOrder.length - 1 ? rowOrder[currentIndex + 1] : '';
     } else {
       modalMagnifierRowIndicatorCurrent.textContent = '';
       modalMagnifierRowIndicatorPrev.textContent = '';
@@ -186,10 +429,10 @@ function setModalMapPosition(
   bgY: number,
   stall?: StallData
 ): { clampedBgX: number; clampedBgY: number } {
-  const { elements, isMobile, allStalls, uiState } = context;
+  const { elements, allStalls, uiState } = context;
   const { modalMagnifier, modalMagnifierStallLayer, mapImage } = elements;
 
-  const zoomFactor = isMobile ? 4.5 : 1.8;
+  const zoomFactor = getModalZoomFactor(context);
   const viewW = modalMagnifier.offsetWidth;
   const viewH = modalMagnifier.offsetHeight;
 
@@ -206,6 +449,7 @@ function setModalMapPosition(
   const clampedBgY = Math.max(viewH - scaledMapH, Math.min(bgY, 0));
 
   // PERFORMANCE: Use `transform` for movement instead of `left`/`top`.
+  modalMagnifier.style.backgroundSize = `${scaledMapW}px ${scaledMapH}px`;
   modalMagnifier.style.backgroundPosition = `${clampedBgX}px ${clampedBgY}px`;
   modalMagnifierStallLayer.style.transform = `translate(${clampedBgX}px, ${clampedBgY}px) scale(${zoomFactor})`;
 
@@ -266,7 +510,7 @@ function setModalMapPosition(
  * @param context The application context.
  */
 function updateModalMagnifierView(stall: StallData, context: ModalContext) {
-  const { elements, isMobile } = context;
+  const { elements } = context;
   const {
     modalMagnifierWrapper,
     modalMagnifier,
@@ -282,7 +526,14 @@ function updateModalMagnifierView(stall: StallData, context: ModalContext) {
   modalMagnifierWrapper.style.display = 'block';
   modalMagnifierWrapper.style.cursor = 'grab';
 
-  const zoomFactor = isMobile ? 4.5 : 1.8;
+  // Stop a momentum glide, and let the view ease over to the new stall.
+  if (!modalState.isPanning) {
+    cancelAnimationFrame(modalState.animationFrameId);
+    modalMagnifier.style.transition = '';
+    modalMagnifierStallLayer.style.transition = '';
+  }
+
+  const zoomFactor = getModalZoomFactor(context);
   const viewW = modalMagnifier.offsetWidth;
   const viewH = modalMagnifier.offsetHeight;
 
@@ -343,8 +594,7 @@ function updateModalMagnifierView(stall: StallData, context: ModalContext) {
  * @param context An object containing all necessary dependencies.
  */
 export function openModal(stallId: string, context: ModalContext) {
-  const { allStalls, elements, magnifierController, uiState, isMobile } =
-    context;
+  const { allStalls, elements, magnifierController, uiState } = context;
   const stall = allStalls.find((s) => s.id === stallId);
   if (!stall) return;
 
@@ -376,11 +626,20 @@ export function openModal(stallId: string, context: ModalContext) {
     );
   }
 
-  elements.modalTitle.textContent = `${stall.id}: ${stall.stallTitle}`;
+  elements.modalTitle.textContent = `${formatStallLabel(stall)}: ${
+    stall.stallTitle
+  }`;
+  updateFavoriteButton(elements, stall.id);
+  updateVisitStatusButtons(elements, stall.id);
 
-  // Populate Body
+  // Populate Body. Values from the stall data are escaped; the promo fields were
+  // sanitized by processStalls, so only their quotes need escaping in attributes.
   let bodyHTML = stall.stallImg
-    ? `<img src="${stall.stallImg}" alt="Official Promo Image: ${stall.stallTitle}" class="official-stall-image" loading="lazy" onload="this.classList.add('loaded')"/>`
+    ? `<img src="${escapeHtml(stall.stallImg)}" data-fallback-src="${escapeHtml(
+        stall.stallImgFallback ?? ''
+      )}" alt="Official Promo Image: ${escapeHtml(
+        stall.stallTitle
+      )}" class="official-stall-image" loading="lazy" onload="this.classList.add('loaded')"/>`
     : '';
   if (stall.stallImg && stall.promoData.length > 0)
     bodyHTML += `<hr class="promo-section-separator">`;
@@ -390,6 +649,8 @@ export function openModal(stallId: string, context: ModalContext) {
     const avatar = promo.promoAvatar
       ? promo.promoAvatar
       : 'https://images.plurk.com/3rbw6tg1lA5dEGpdKTL8j1.png';
+    const avatarSrc = escapeQuotes(avatar);
+    const avatarAlt = escapeQuotes(promo.promoUser);
 
     let tagsHTML = '';
     if (promo.promoTags && promo.promoTags.length > 0) {
@@ -403,7 +664,7 @@ export function openModal(stallId: string, context: ModalContext) {
     bodyHTML += `
       <div class="promo-entry">
           <div class="modal-user-info">
-              <img src="${avatar}" alt="${promo.promoUser}" class="modal-avatar">
+              <img src="${avatarSrc}" alt="${avatarAlt}" class="modal-avatar">
               <span class="modal-username">${promo.promoUser}</span>
           </div>
           ${tagsHTML}
@@ -412,6 +673,15 @@ export function openModal(stallId: string, context: ModalContext) {
   });
   elements.modalBody.innerHTML = bodyHTML || '暫無宣傳資訊。';
 
+  // Highlight why the stall matched, before the embed scripts replace their blockquotes.
+  const highlightTerms = getHighlightTerms(stall, elements.searchInput.value);
+  modalState.highlights = [
+    ...highlightMatches(elements.modalTitle, highlightTerms),
+    ...highlightMatches(elements.modalBody, highlightTerms),
+  ];
+  modalState.currentHighlightIndex = -1;
+  updateNextMatchButton(elements);
+
   // 動態嵌入 IG 貼文
   if (window.instgrm) {
     window.instgrm.Embeds.process();
@@ -447,63 +717,33 @@ export function openModal(stallId: string, context: ModalContext) {
     elements.searchInput.value
   );
   const rowId = stall.id.substring(0, 1);
-  const verticalRowIds = ['猴', '雞', '狗', '特', '商'];
-  const isVertical = verticalRowIds.includes(rowId);
+  const isVertical = isVerticalRow(rowId);
+
+  // Step through the matches from the header while a search is active.
+  const isFilteringStalls = isFiltering(elements.searchInput.value);
+  modalState.matchStalls = isFilteringStalls ? navigableStalls : [];
+  updateMatchNav(elements, stall.id);
+
+  const navigableIds = new Set(navigableStalls.map((s) => s.id));
+  const graph = getNavigationGraph(allStalls);
+  /** Limits navigation to the stalls matching the search. */
+  const isNavigable = (s: StallData) => navigableIds.has(s.id);
+  const navIds = {
+    up: graph.neighbors(stall.id, 'up', isNavigable)[0],
+    down: graph.neighbors(stall.id, 'down', isNavigable)[0],
+    left: graph.neighbors(stall.id, 'left', isNavigable)[0],
+    right: graph.neighbors(stall.id, 'right', isNavigable)[0],
+  };
 
   if (isVertical) {
-    // Special navigation for vertical rows: up/down moves within the row.
+    // Special navigation for vertical rows: up/down moves within the column, and
+    // on to the neighbouring rows at its ends.
     elements.modalNavLeft.style.display = 'none';
     elements.modalNavRight.style.display = 'none';
     elements.modalNavUp.style.display = 'block';
     elements.modalNavDown.style.display = 'block';
     elements.modalNavUp.ariaLabel = '往上一個攤位';
     elements.modalNavDown.ariaLabel = '往下一個攤位';
-
-    // Try to find adjacent stall within the same vertical column first.
-    // Up (▲) action is num + 1, Down (▼) action is num - 1.
-    let upStallId = undefined;
-    let upStep = 1;
-    while (stall.num + upStep <= 34) {
-      const findId = navigableStalls.find(
-        (s) => s.id.startsWith(rowId) && s.num === stall.num + upStep
-      )?.id;
-      if (findId) {
-        upStallId = findId;
-        break;
-      }
-      upStep += 1;
-    }
-    let downStallId = undefined;
-    let downStep = -1;
-    while (stall.num + downStep > 0) {
-      const findId = navigableStalls.find(
-        (s) => s.id.startsWith(rowId) && s.num === stall.num + downStep
-      )?.id;
-      if (findId) {
-        downStallId = findId;
-        break;
-      }
-      downStep -= 1;
-    }
-
-    // If at the top of the vertical column, find the row "above" (visually).
-    if (!upStallId) {
-      upStallId = getAdjacentStallId(stall, navigableStalls, 'up');
-    }
-
-    // If at the bottom of the vertical column, find the row "below" (visually).
-    if (!downStallId) {
-      downStallId = getAdjacentStallId(stall, navigableStalls, 'down');
-    }
-
-    elements.modalNavUp.disabled = !upStallId;
-    elements.modalNavUp.dataset.targetId = upStallId ?? '';
-    elements.modalNavDown.disabled = !downStallId;
-    elements.modalNavDown.dataset.targetId = downStallId ?? '';
-
-    // Left and Right are never used for vertical rows.
-    elements.modalNavLeft.disabled = true;
-    elements.modalNavRight.disabled = true;
   } else {
     // Standard navigation for horizontal rows
     elements.modalNavLeft.style.display = 'block';
@@ -512,24 +752,17 @@ export function openModal(stallId: string, context: ModalContext) {
     elements.modalNavDown.style.display = 'block';
     elements.modalNavUp.ariaLabel = '往上一排';
     elements.modalNavDown.ariaLabel = '往下一排';
-
-    const navIds = {
-      up: getAdjacentStallId(stall, navigableStalls, 'up'),
-      down: getAdjacentStallId(stall, navigableStalls, 'down'),
-      left: getAdjacentStallId(stall, navigableStalls, 'left'),
-      right: getAdjacentStallId(stall, navigableStalls, 'right'),
-    };
-
-    elements.modalNavUp.disabled = !navIds.up;
-    elements.modalNavUp.dataset.targetId = navIds.up ?? '';
-    elements.modalNavDown.disabled = !navIds.down;
-    elements.modalNavDown.dataset.targetId = navIds.down ?? '';
-    elements.modalNavLeft.disabled = !navIds.left;
-    elements.modalNavLeft.dataset.targetId = navIds.left ?? '';
-    elements.modalNavRight.disabled = !navIds.right;
-    elements.modalNavRight.dataset.targetId = navIds.right ?? '';
   }
 
+  elements.modalNavUp.disabled = !navIds.up;
+  elements.modalNavUp.dataset.targetId = navIds.up ?? '';
+  elements.modalNavDown.disabled = !navIds.down;
+  elements.modalNavDown.dataset.targetId = navIds.down ?? '';
+  elements.modalNavLeft.disabled = !navIds.left;
+  elements.modalNavLeft.dataset.targetId = navIds.left ?? '';
+  elements.modalNavRight.disabled = !navIds.right;
+  elements.modalNavRight.dataset.targetId = navIds.right ?? '';
+
   // --- Update Vertical Stall List (for vertical rows) ---
   const { modalVerticalStallList } = elements;
 
@@ -546,7 +779,8 @@ export function openModal(stallId: string, context: ModalContext) {
       .filter((s) => s.id.startsWith(rowId))
       .sort((a, b) => b.num - a.num); // Sort numerically descending
 
-    const searchTerm = elements.searchInput.value.toLowerCase().trim();
+    // Mark the stalls the map highlights: the navigable stalls, when filtering.
+    const matchedIds = new Set(navigableStalls.map((s) => s.id));
 
     stallsInRow.forEach((s) => {
       const itemEl = document.createElement('div');
@@ -558,21 +792,7 @@ export function openModal(stallId: string, context: ModalContext) {
         itemEl.classList.add('has-promo');
       }
 
-      let isMatch = false;
-      if (searchTerm !== '') {
-        const hasPromoUserMatch = s.promoData.some((promo) =>
-          promo.promoUser.toLowerCase().includes(searchTerm)
-        );
-        const hasTagMatch = s.promoTags.some((tag) =>
-          tag.toLowerCase().includes(searchTerm)
-        );
-        isMatch =
-          s.id.toLowerCase().includes(searchTerm) ||
-          s.stallTitle.toLowerCase().includes(searchTerm) ||
-          hasPromoUserMatch ||
-          hasTagMatch;
-      }
-      if (isMatch) {
+      if (isFilteringStalls && matchedIds.has(s.id)) {
         itemEl.classList.add('is-search-match');
       }
 
@@ -606,6 +826,7 @@ export function openModal(stallId: string, context: ModalContext) {
   elements.modal.setAttribute('aria-hidden', 'true');
 
   updateModalMagnifierView(stall, context);
+  context.onModalChange?.(stall.id);
 }
 
 /**
@@ -621,6 +842,9 @@ export function closeModal(context: ModalContext) {
   elements.modal.setAttribute('aria-hidden', 'true');
 
   clearSelection(elements, magnifierController, uiState);
+  modalState.highlights = [];
+  modalState.currentHighlightIndex = -1;
+  modalState.zoomScale = 1;
 
   if (magnifierController && modalState.wasMagnifierVisible) {
     magnifierController.show();
@@ -628,6 +852,7 @@ export function closeModal(context: ModalContext) {
   modalState.wasMagnifierVisible = false;
   elements.modalMagnifierWrapper.style.display = 'none';
   elements.modalVerticalStallList.style.display = 'none';
+  context.onModalChange?.(null);
 }
 
 /**
@@ -681,6 +906,36 @@ export function initializeModalEventListeners(context: ModalContext) {
     }
   });
 
+  elements.modalNextMatch.addEventListener('click', () =>
+    showNextMatch(elements)
+  );
+
+  elements.modalFavorite.addEventListener('click', () =>
+    toggleShownFavorite(context)
+  );
+
+  elements.modalVisitStatus.addEventListener('click', (e) => {
+    const button = (e.target as HTMLElement).closest(
+      '.visit-status-option'
+    ) as HTMLElement | null;
+    if (button?.dataset.status) {
+      chooseShownVisitStatus(button.dataset.status as VisitStatus, context);
+    }
+  });
+
+  elements.modalMatchPrev.addEventListener('click', () =>
+    stepThroughMatches(-1, context)
+  );
+  elements.modalMatchNext.addEventListener('click', () =>
+    stepThroughMatches(1, context)
+  );
+  elements.modalMatchOrder.addEventListener('click', () => {
+    modalState.matchOrder =
+      modalState.matchOrder === 'ranked' ? 'spatial' : 'ranked';
+    const currentId = context.uiState.selectedStallElement?.dataset.stallId;
+    if (currentId) updateMatchNav(elements, currentId);
+  });
+
   elements.modalVerticalStallList.addEventListener('click', (e) => {
     const item = (e.target as HTMLElement).closest(
       '.modal-vertical-stall-item'
@@ -700,10 +955,119 @@ export function initializeModalEventListeners(context: ModalContext) {
     modalState.animationFrameId = requestAnimationFrame(panAnimationLoop);
   };
 
+  /** Reads the mini-map's current offset from the stall layer's transform. */
+  const readModalMapOffset = () => {
+    const transformMatrix = new DOMMatrix(
+      window.getComputedStyle(modalMagnifierStallLayer).transform
+    );
+    return { x: transformMatrix.e, y: transformMatrix.f };
+  };
+
+  /**
+   * Measures a two-finger gesture: the midpoint, relative to the mini-map, and
+   * the distance between the fingers.
+   * @param touches The touches of the gesture.
+   */
+  const getPinchGeometry = (touches: TouchList) => {
+    const rect = modalMagnifier.getBoundingClientRect();
+    const [a, b] = [touches[0], touches[1]];
+    return {
+      x: (a.clientX + b.clientX) / 2 - rect.left,
+      y: (a.clientY + b.clientY) / 2 - rect.top,
+      distance: Math.hypot(a.clientX - b.clientX, a.clientY - b.clientY),
+    };
+  };
+
+  /**
+   * Starts pinch-zooming the mini-map when a second finger touches it.
+   * @param touches The touches of the gesture.
+   */
+  const onPinchStart = (touches: TouchList) => {
+    const { x, y, distance } = getPinchGeometry(touches);
+    const offset = readModalMapOffset();
+    const zoomFactor = getModalZoomFactor(context);
+    modalState.isPinching = true;
+    modalState.panHappened = true; // A pinch is never a tap.
+    modalState.pinchStartDistance = distance;
+    modalState.pinchStartScale = modalState.zoomScale;
+    modalState.pinchMapX = (x - offset.x) / zoomFactor;
+    modalState.pinchMapY = (y - offset.y) / zoomFactor;
+  };
+
+  /**
+   * Zooms the mini-map by how far the fingers spread, keeping the map point that
+   * was under them under their midpoint (which also pans along with them).
+   * @param touches The touches of the gesture.
+   */
+  const onPinchMove = (touches: TouchList) => {
+    const { x, y, distance } = getPinchGeometry(touches);
+    if (modalState.pinchStartDistance === 0) return;
+    modalState.zoomScale = Math.max(
+      MIN_ZOOM_SCALE,
+      Math.min(
+        MAX_ZOOM_SCALE,
+        (modalState.pinchStartScale * distance) / modalState.pinchStartDistance
+      )
+    );
+    const zoomFactor = getModalZoomFactor(context);
+    modalState.targetBgX = x - modalState.pinchMapX * zoomFactor;
+    modalState.targetBgY = y - modalState.pinchMapY * zoomFactor;
+  };
+
+  /** Restores the transitions turned off for direct control while panning. */
+  const finishPan = () => {
+    modalState.isPinching = false;
+    // Restore transitions for smooth centering next time a stall is selected
+    modalMagnifier.style.transition = '';
+    modalMagnifierStallLayer.style.transition = '';
+  };
+
+  /**
+   * Keeps a released mini-map moving with the pan's speed, slowing down until it
+   * stops or reaches the edge of the map.
+   */
+  const glide = () => {
+    let lastTime = performance.now();
+    const step = (time: number) => {
+      const dt = Math.min(time - lastTime, 32);
+      lastTime = time;
+      modalState.targetBgX += modalState.velocityX * dt;
+      modalState.targetBgY += modalState.velocityY * dt;
+      const { clampedBgX, clampedBgY } = setModalMapPosition(
+        context,
+        modalState.targetBgX,
+        modalState.targetBgY
+      );
+      // Stop dead against an edge rather than pushing into it.
+      if (clampedBgX !== modalState.targetBgX) modalState.velocityX = 0;
+      if (clampedBgY !== modalState.targetBgY) modalState.velocityY = 0;
+      modalState.targetBgX = clampedBgX;
+      modalState.targetBgY = clampedBgY;
+
+      const decay = Math.pow(MOMENTUM_FRICTION, dt / 16);
+      modalState.velocityX *= decay;
+      modalState.velocityY *= decay;
+      if (
+        Math.hypot(modalState.velocityX, modalState.velocityY) < MIN_GLIDE_SPEED
+      ) {
+        finishPan();
+        return;
+      }
+      modalState.animationFrameId = requestAnimationFrame(step);
+    };
+    modalState.animationFrameId = requestAnimationFrame(step);
+  };
+
   const onPanMove = (e: MouseEvent | TouchEvent) => {
     if (!modalState.isPanning) return;
     if (e.type === 'touchmove') e.preventDefault();
 
+    const touches = (e as TouchEvent).touches;
+    if (modalState.isPinching) {
+      if (touches?.length >= 2) onPinchMove(touches);
+      return;
+    }
+
     const touch = (e as TouchEvent).touches?.[0];
     const clientX = touch ? touch.clientX : (e as MouseEvent).clientX;
     const clientY = touch ? touch.clientY : (e as MouseEvent).clientY;
@@ -720,6 +1084,22 @@ export function initializeModalEventListeners(context: ModalContext) {
       modalState.targetBgX = modalState.initialBgX + dx;
       modalState.targetBgY = modalState.initialBgY + dy;
     }
+
+    // Track the speed for the glide after release, smoothed so one jittery
+    // event doesn't decide it.
+    const now = performance.now();
+    const dt = now - modalState.lastMoveTime;
+    if (dt > 0) {
+      modalState.velocityX =
+        0.8 * ((clientX - modalState.lastMoveX) / dt) +
+        0.2 * modalState.velocityX;
+      modalState.velocityY =
+        0.8 * ((clientY - modalState.lastMoveY) / dt) +
+        0.2 * modalState.velocityY;
+    }
+    modalState.lastMoveX = clientX;
+    modalState.lastMoveY = clientY;
+    modalState.lastMoveTime = now;
   };
 
   const onPanEnd = () => {
@@ -733,16 +1113,35 @@ export function initializeModalEventListeners(context: ModalContext) {
       handleModalMapClick(modalState.clickTarget as HTMLElement, context);
     }
 
+    // Glide on after a flick; a pan that came to rest before release stays put.
+    const isFlick =
+      modalState.panHappened &&
+      !modalState.isPinching &&
+      performance.now() - modalState.lastMoveTime < 100 &&
+      Math.hypot(modalState.velocityX, modalState.velocityY) >= MIN_GLIDE_SPEED;
+
     modalState.isPanning = false;
     modalState.clickTarget = null;
     modalMagnifierWrapper.style.cursor = 'grab';
 
-    // Restore transitions for smooth centering next time a stall is selected
-    modalMagnifier.style.transition = '';
-    modalMagnifierStallLayer.style.transition = '';
+    if (isFlick) {
+      glide();
+    } else {
+      finishPan();
+    }
   };
 
   const onPanStart = (e: MouseEvent | TouchEvent) => {
+    const touches = (e as TouchEvent).touches;
+    // A second finger on a panning mini-map turns the pan into a pinch.
+    if (modalState.isPanning) {
+      if (touches?.length === 2) {
+        e.preventDefault();
+        onPinchStart(touches);
+      }
+      return;
+    }
+
     const target = e.target as HTMLElement;
     // Prevent pan from starting if the click is on the vertical stall list.
     if (target.closest('#modal-vertical-stall-list')) {
@@ -778,13 +1177,17 @@ export function initializeModalEventListeners(context: ModalContext) {
     modalState.panStartY = clientY;
 
     // Get initial position from the transform property
-    const transformMatrix = new DOMMatrix(
-      window.getComputedStyle(modalMagnifierStallLayer).transform
-    );
-    modalState.initialBgX = transformMatrix.e;
-    modalState.initialBgY = transformMatrix.f;
+    cancelAnimationFrame(modalState.animationFrameId);
+    const offset = readModalMapOffset();
+    modalState.initialBgX = offset.x;
+    modalState.initialBgY = offset.y;
     modalState.targetBgX = modalState.initialBgX;
     modalState.targetBgY = modalState.initialBgY;
+    modalState.lastMoveX = clientX;
+    modalState.lastMoveY = clientY;
+    modalState.lastMoveTime = performance.now();
+    modalState.velocityX = 0;
+    modalState.velocityY = 0;
 
     // Disable transitions during panning for direct control
     modalMagnifier.style.transition = 'none';
@@ -795,7 +1198,9 @@ export function initializeModalEventListeners(context: ModalContext) {
     );
     if (highlight) (highlight as HTMLElement).style.visibility = 'hidden';
 
-    cancelAnimationFrame(modalState.animationFrameId);
+    // Both fingers may land at once.
+    if (touches?.length === 2) onPinchStart(touches);
+
     modalState.animationFrameId = requestAnimationFrame(panAnimationLoop);
 
     document.addEventListener('mousemove', onPanMove);
@@ -810,6 +1215,57 @@ export function initializeModalEventListeners(context: ModalContext) {
   });
   // --- End of Mini-Map Interaction ---
 
+  // --- Touch Gestures on the Details ---
+  // Swiping sideways moves to the neighbouring stall, like the arrow buttons (up
+  // and down in vertical rows, whose side buttons are hidden). Pulling down from
+  // the top of the details dismisses them.
+  attachSwipeGestures(elements.modalContent, {
+    canPull: (target) =>
+      !!target.closest('.modal-header') || elements.modalBody.scrollTop <= 0,
+    onPull: (distance) => {
+      elements.modalContent.classList.toggle('is-pulling', distance > 0);
+      elements.modalContent.style.transform =
+        distance > 0 ? `translateY(${distance / 2}px)` : '';
+    },
+    onSwipe: (direction) => {
+      if (direction === 'down') {
+        closeModal(context);
+        return;
+      }
+      const isVertical = elements.modalNavLeft.style.display === 'none';
+      // Swiping left brings in what lies to the right, like turning a page.
+      const forward = isVertical
+        ? elements.modalNavDown
+        : elements.modalNavRight;
+      const back = isVertical ? elements.modalNavUp : elements.modalNavLeft;
+      const button = direction === 'left' ? forward : back;
+      if (!button.disabled) button.click();
+    },
+  });
+
+  // If the CDN fails to serve an official image, switch to the local copy.
+  // Error events don't bubble, so listen in the capture phase.
+  elements.modalBody.addEventListener(
+    'error',
+    (e) => {
+      const target = e.target;
+      if (
+        target instanceof HTMLImageElement &&
+        target.classList.contains('official-stall-image') &&
+        target.dataset.fallbackSrc
+      ) {
+        const fallbackSrc = target.dataset.fallbackSrc;
+        // Only try once, so a missing local copy doesn't loop.
+        delete target.dataset.fallbackSrc;
+        console.warn(
+          `Official image failed to load from the CDN, using the local copy: ${fallbackSrc}`
+        );
+        target.src = fallbackSrc;
+      }
+    },
+    true
+  );
+
   // --- Image Lightbox Listeners ---
   const boundCloseImageLightbox = () => closeImageLightbox(elements);
 
@@ -870,6 +1326,8 @@ export function initializeModalEventListeners(context: ModalContext) {
     }
 
     if (elements.modal.classList.contains('hidden')) return;
+    // Keys typed into a field stay there; only Escape still closes the modal.
+    if (e.key !== 'Escape' && isEditableTarget(e.target)) return;
     switch (e.key) {
       case 'Escape':
         closeModal(context);
@@ -886,6 +1344,16 @@ export function initializeModalEventListeners(context: ModalContext) {
       case 'ArrowRight':
         elements.modalNavRight.click();
         break;
+      case 'n':
+      case 'p':
+        // Leave shortcuts such as Ctrl+P (print) alone.
+        if (e.ctrlKey || e.metaKey || e.altKey) break;
+        stepThroughMatches(e.key === 'n' ? 1 : -1, context);
+        break;
+      case 'f':
+        if (e.ctrlKey || e.metaKey || e.altKey) break;
+        toggleShownFavorite(context);
+        break;
     }
   });
 
@@ -3,167 +3,283 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
+import { applyFavoritesFilter, favoritesFilter } from './favorites.ts';
+import { rowOrder } from './event-config.ts';
+import { isOnReturnLine, isVerticalRow } from './layout-engine.ts';
+import { parseQuery } from './search.ts';
+import { searchStalls } from './search-index.ts';
+import { getMemberNums } from './stall-id.ts';
+import { applyTagFilter, isTagFilterActive, tagFilter } from './tag-facets.ts';
+import type { TagFilter } from './tag-facets.ts';
 import type { StallData } from './types.ts';
 
-/** The definitive order of all rows on the map. */
-export const allRowIds = [
-  'A',
-  'B',
-  'C',
-  'D',
-  'E',
-  'F',
-  'G',
-  'H',
-  'I',
-  'J',
-  'K',
-  'L',
-  'M',
-  'N',
-  'O',
-  'P',
-  'Q',
-  'R',
-  'S',
-  'T',
-  'U',
-  'V',
-  'W',
-  'X',
-  'Y',
-  'Z',
-  '鼠',
-  '牛',
-  '虎',
-  '兔',
-  '龍',
-  '蛇',
-  '馬',
-  '羊',
-  '商',
-  '特',
-  '猴',
-  '雞',
-  '狗',
-];
-
 /**
  * Gets the list of stalls that can be navigated through, based on the current search filter.
+ * Uses the same query, tag filter and "favorites only" switch as the map highlights,
+ * so the modal arrows visit exactly the highlighted stalls.
  * @param allStalls The complete list of all stalls.
  * @param searchTerm The current value from the search input.
- * @returns An array of StallData objects that match the search.
+ * @param filter The selected tag facets; defaults to the facet bar's selection.
+ * @returns An array of StallData objects that match the search, best match first.
  */
 export const getNavigableStalls = (
   allStalls: StallData[],
   searchTerm: string,
-): StallData[] => {
-  const normalizedSearch = searchTerm.toLowerCase().trim();
-  if (normalizedSearch === '') {
-    return allStalls;
-  }
-  return allStalls.filter((stall) => {
-    const hasPromoUserMatch = stall.promoData.some((promo) =>
-      promo.promoUser.toLowerCase().includes(normalizedSearch),
-    );
-    return (
-      stall.id.toLowerCase().includes(normalizedSearch) ||
-      stall.stallTitle.toLowerCase().includes(normalizedSearch) ||
-      hasPromoUserMatch
-    );
-  });
-};
+  filter: TagFilter = tagFilter,
+): StallData[] =>
+  applyTagFilter(
+    applyFavoritesFilter(searchStalls(parseQuery(searchTerm), allStalls)),
+    filter,
+  ).map(({ stall }) => stall);
 
 /**
- * Finds the ID of an adjacent stall based on the map's layout.
- * @param currentStall The stall to navigate from.
- * @param navigableStalls The list of currently visible/search-matched stalls.
- * @param direction 'up', 'down', 'left', or 'right'.
- * @returns The ID of the adjacent stall, or null if none exists.
+ * Returns true if any filter is narrowing the stalls: a query, a tag facet or the
+ * "favorites only" switch. The map highlights and the modal's match stepping both
+ * ask this, so they agree on when the matches are shown.
+ * @param searchTerm The current value from the search input.
+ * @param filter The selected tag facets; defaults to the facet bar's selection.
  */
-export const getAdjacentStallId = (
-  currentStall: StallData,
-  navigableStalls: StallData[],
-  direction: 'up' | 'down' | 'left' | 'right',
-): string | null => {
-  const currentLine = currentStall.id.substring(0, 1);
-  const currentNum = currentStall.num;
-  const isCurrentVertical = ['狗', '雞', '猴', '特', '商'].includes(
-    currentLine,
-  );
-  const currentRowIndex = allRowIds.indexOf(currentLine);
-
-  if (
-    direction === 'right' &&
-    currentLine >= 'A' &&
-    currentLine <= 'Q' &&
-    (currentNum === 1 || currentNum === 72)
-  ) {
-    return null;
-  }
+export const isFiltering = (
+  searchTerm: string,
+  filter: TagFilter = tagFilter,
+): boolean =>
+  !parseQuery(searchTerm).isEmpty ||
+  isTagFilterActive(filter) ||
+  favoritesFilter.isOnly;
 
-  if (direction === 'left' || direction === 'right') {
-    const horizDirection = direction === 'right' ? 'prev' : 'next';
-    const isReversed =
-      !isCurrentVertical && !(currentNum >= 1 && currentNum <= 36);
-    const step = horizDirection === 'next' ? 1 : -1;
-    const directionStep = isReversed ? -step : step;
-
-    let targetNum = currentNum + directionStep;
-    while (targetNum >= 1 && targetNum <= 72) {
-      const foundStallInRow = navigableStalls.find(
-        (s) => s.id.startsWith(currentLine) && s.num === targetNum,
-      );
-      if (foundStallInRow) return foundStallInRow.id;
+/** The orders the modal can step through search matches in. */
+export type MatchOrder = 'ranked' | 'spatial';
+
+// Tables whose tops are this close (in map percent) are read as one line, so the
+// two halves of the hall, calibrated a little apart, aren't read one after the other.
+const SAME_LINE_TOLERANCE = 1;
 
-      targetNum += directionStep;
+/**
+ * Sorts stalls in reading order on the map: line by line from the top, and left
+ * to right within a line.
+ * @param stalls The stalls to sort.
+ * @returns A new, sorted array.
+ */
+export function sortByReadingOrder(stalls: StallData[]): StallData[] {
+  const byTop = [...stalls].sort(
+    (a, b) => a.numericCoords.top - b.numericCoords.top,
+  );
+  const lines: StallData[][] = [];
+  byTop.forEach((stall) => {
+    const line = lines[lines.length - 1];
+    if (
+      line &&
+      stall.numericCoords.top - line[0].numericCoords.top <= SAME_LINE_TOLERANCE
+    ) {
+      line.push(stall);
+    } else {
+      lines.push([stall]);
     }
+  });
+  return lines.flatMap((line) =>
+    line.sort((a, b) => a.numericCoords.left - b.numericCoords.left),
+  );
+}
+
+/** A direction of travel on the map. */
+export type Direction = 'up' | 'down' | 'left' | 'right';
+
+/**
+ * The stalls reachable from a stall in one direction. Stalls along the same row
+ * (or vertical column) come first, nearest first; when none of them is wanted,
+ * travel continues across the aisle into the next rows, in order.
+ */
+interface NavigationEdge {
+  /** Stalls further along the row or column, nearest first. */
+  along: string[];
+  /** The rows across the aisle, nearest first. */
+  rows: string[];
+  /** Where a row is entered: the table closest to ours, or the column's top or bottom. */
+  entry: 'closest' | 'top' | 'bottom';
+}
+
+/** A stall in the navigation graph, with its edges in every direction. */
+interface NavigationNode {
+  stall: StallData;
+  edges: Record<Direction, NavigationEdge>;
+}
+
+/** Adjacency between stalls, precomputed from the row layout and the processed stalls. */
+export interface NavigationGraph {
+  /**
+   * Lists the nearest stalls in a direction that pass a filter: the closest ones
+   * along the row first; failing that, the stalls of the nearest row across the
+   * aisle that has any, best entry point first.
+   * @param stallId The stall to move from.
+   * @param direction The direction to move in.
+   * @param filter Limits the stalls that can be reached, e.g. to search matches.
+   * @returns The reachable stall IDs, best first; empty at a dead end.
+   */
+  neighbors: (
+    stallId: string,
+    direction: Direction,
+    filter?: (stall: StallData) => boolean,
+  ) => string[];
+}
+
+// The row ends (and the tops and bottoms of columns) have no edge along the row.
+const NO_EDGE: NavigationEdge = { along: [], rows: [], entry: 'closest' };
 
-    // Wrap to adjacent row (logic only for up/down visual movement)
-    return null;
+// Built once per stall list; a refresh replaces the list and so the graph.
+const graphs = new WeakMap<StallData[], NavigationGraph>();
+
+/**
+ * Lists the stalls of a row further along from a stall, nearest first.
+ * @param rowStalls The row's stalls, by ascending table number.
+ * @param nums The table numbers of the stall moved from.
+ * @param step +1 to move to higher table numbers, -1 for lower.
+ */
+function getStallsAlong(
+  rowStalls: StallData[],
+  nums: number[],
+  step: 1 | -1,
+): string[] {
+  // Step off the joint stall's last table in the direction of travel.
+  const edge = step > 0 ? Math.max(...nums) : Math.min(...nums);
+  const ahead = rowStalls
+    .map((s) => ({
+      id: s.id,
+      // The first of the stall's tables reached in the direction of travel.
+      num:
+        step > 0
+          ? Math.min(...getMemberNums(s))
+          : Math.max(...getMemberNums(s)),
+    }))
+    .filter(({ num }) => (num - edge) * step > 0);
+  ahead.sort((a, b) => (a.num - b.num) * step);
+  return ahead.map(({ id }) => id);
+}
+
+/**
+ * Builds the edges of one stall.
+ * @param stall The stall.
+ * @param rowStalls The stalls of its row, by ascending table number.
+ */
+function buildEdges(
+  stall: StallData,
+  rowStalls: StallData[],
+): Record<Direction, NavigationEdge> {
+  const rowId = stall.id.substring(0, 1);
+  const nums = getMemberNums(stall);
+  const rowIndex = rowOrder.indexOf(rowId);
+  // Moving 'up' on the map means going from row A -> B, or 猴 -> 雞, which is an
+  // increase in the event's row order.
+  const rowsUp = rowIndex === -1 ? [] : rowOrder.slice(rowIndex + 1);
+  const rowsDown = rowIndex === -1 ? [] : rowOrder.slice(0, rowIndex).reverse();
+
+  if (isVerticalRow(rowId)) {
+    // A vertical column: up/down move along it (numbers grow upwards), then on to
+    // the bottom of the next row up or the top of the next row down.
+    return {
+      up: {
+        along: getStallsAlong(rowStalls, nums, 1),
+        rows: rowsUp,
+        entry: 'bottom',
+      },
+      down: {
+        along: getStallsAlong(rowStalls, nums, -1),
+        rows: rowsDown,
+        entry: 'top',
+      },
+      left: NO_EDGE,
+      right: NO_EDGE,
+    };
   }
 
-  if (direction === 'up' || direction === 'down') {
-    if (currentRowIndex === -1) return null;
-    // Moving 'up' on the map means going from row A -> B, or 猴 -> 雞, which is an increase in the allRowIds index.
-    const step = direction === 'up' ? 1 : -1;
+  // Table numbers grow leftwards, except on a serpentine row's return line.
+  const leftStep = isOnReturnLine(rowId, stall.num) ? -1 : 1;
+  return {
+    up: { along: [], rows: rowsUp, entry: 'closest' },
+    down: { along: [], rows: rowsDown, entry: 'closest' },
+    left: {
+      along: getStallsAlong(rowStalls, nums, leftStep),
+      rows: [],
+      entry: 'closest',
+    },
+    right: {
+      along: getStallsAlong(rowStalls, nums, leftStep > 0 ? -1 : 1),
+      rows: [],
+      entry: 'closest',
+    },
+  };
+}
+
+/**
+ * Builds the navigation graph of a stall list. Rows are linked in the active
+ * event's row order, and the stalls within a row by their rows' layouts.
+ * @param stalls The processed stalls.
+ */
+function buildNavigationGraph(stalls: StallData[]): NavigationGraph {
+  const stallsByRowId = new Map<string, StallData[]>();
+  stalls.forEach((stall) => {
+    const rowId = stall.id.substring(0, 1);
+    if (!stallsByRowId.has(rowId)) stallsByRowId.set(rowId, []);
+    stallsByRowId.get(rowId)!.push(stall);
+  });
+  stallsByRowId.forEach((rowStalls) => rowStalls.sort((a, b) => a.num - b.num));
 
-    let targetRowIndex = currentRowIndex + step;
-    while (targetRowIndex >= 0 && targetRowIndex < allRowIds.length) {
-      const targetRowId = allRowIds[targetRowIndex];
-      const stallsInTargetRow = navigableStalls.filter((s) =>
-        s.id.startsWith(targetRowId),
+  const nodes = new Map<string, NavigationNode>();
+  stalls.forEach((stall) => {
+    const rowStalls = stallsByRowId.get(stall.id.substring(0, 1))!;
+    nodes.set(stall.id, { stall, edges: buildEdges(stall, rowStalls) });
+  });
+
+  const neighbors: NavigationGraph['neighbors'] = (
+    stallId,
+    direction,
+    filter = () => true,
+  ) => {
+    const node = nodes.get(stallId);
+    if (!node) return [];
+    const edge = node.edges[direction];
+
+    const along = edge.along.filter((id) => filter(nodes.get(id)!.stall));
+    if (along.length > 0) return along;
+
+    const currentNums = getMemberNums(node.stall);
+    /**
+     * Ranks a stall as an entry point into its row; lower is better.
+     * @param stall A stall of the row being entered.
+     */
+    const entryCost = (stall: StallData) => {
+      if (edge.entry === 'top') return -stall.num;
+      if (edge.entry === 'bottom') return stall.num;
+      // The closest table, comparing every table of joint stalls.
+      return Math.min(
+        ...getMemberNums(stall).flatMap((num) =>
+          currentNums.map((current) => Math.abs(num - current)),
+        ),
       );
-      if (stallsInTargetRow.length > 0) {
-        let targetStall: StallData | undefined;
-
-        // If navigating from a vertical row, connect to the top/bottom of the next row.
-        if (isCurrentVertical) {
-          if (direction === 'down') {
-            // Moving DOWN from a vertical row (e.g., 狗 -> 雞).
-            // Land on the stall with the HIGHEST number in the target row (the top-most stall).
-            targetStall = stallsInTargetRow.sort((a, b) => b.num - a.num)[0];
-          } else {
-            // direction === 'up'
-            // Moving UP from a vertical row (e.g., 雞 -> 狗).
-            // Land on the stall with the LOWEST number in the target row (the bottom-most stall).
-            targetStall = stallsInTargetRow.sort((a, b) => a.num - b.num)[0];
-          }
-        } else {
-          // Default behavior: find the stall with the closest number.
-          targetStall = stallsInTargetRow.find((s) => s.num === currentNum);
-          if (!targetStall) {
-            targetStall = stallsInTargetRow.sort(
-              (a, b) =>
-                Math.abs(a.num - currentNum) - Math.abs(b.num - currentNum),
-            )[0];
-          }
-        }
-        return targetStall?.id || null;
+    };
+
+    for (const rowId of edge.rows) {
+      const candidates = (stallsByRowId.get(rowId) ?? []).filter(filter);
+      if (candidates.length > 0) {
+        return candidates
+          .sort((a, b) => entryCost(a) - entryCost(b))
+          .map((s) => s.id);
       }
-      targetRowIndex += step; // continue searching in the same direction
     }
-  }
+    return [];
+  };
+
+  return { neighbors };
+}
 
-  return null;
-};
+/**
+ * Returns the navigation graph of a stall list, building it on first use.
+ * @param stalls The processed stalls.
+ */
+export function getNavigationGraph(stalls: StallData[]): NavigationGraph {
+  let graph = graphs.get(stalls);
+  if (!graph) {
+    graph = buildNavigationGraph(stalls);
+    graphs.set(stalls, graph);
+  }
+  return graph;
+}
@@ -3,225 +3,282 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-import type { LocateStall } from './types.ts';
+import type { EventConfig, LocateStall, RowLayout } from './types.ts';
+
+/**
+ * The layout shared by the lettered and zodiac rows: 36 tables numbered right to
+ * left, then the numbering turns around and runs back along the row above.
+ * The gaps are the aisles crossing the row after every 12 tables.
+ */
+export const serpentineRowLayout: RowLayout = {
+  direction: 'left',
+  serpentine: { wrapAfter: 36, lineGap: 0.25 },
+  gaps: [
+    { from: 13, to: 24, size: 0.9 },
+    { from: 25, to: 48, size: 1.75 },
+    { from: 49, to: 60, size: 0.9 },
+  ],
+};
 
 /**
  * Defines the starting coordinates for each row/column of stalls on the map.
- * This data acts as a template or reference point. The `stall-processor.ts` file
- * uses these coordinates along with a stall's specific number (e.g., the "01" in "A01")
- * to calculate its precise position on the map image.
+ * This data acts as a template or reference point. The layout engine (`layout-engine.ts`)
+ * uses these coordinates and the row's `layout` spec along with a stall's specific
+ * number (e.g., the "01" in "A01") to calculate its precise position on the map image.
  * The 'border' property defines the bounding box for the entire row.
  */
-export const locateStalls: LocateStall[] = [
+export const nice0816LocateStalls: LocateStall[] = [
   {
     id: 'A',
     num: 1,
     coords: { top: 87.8, left: 91, width: 1.05, height: 1.4 },
     border: { top: 86.15, left: 52.5, bottom: 89.2, right: 92.05 },
+    layout: serpentineRowLayout,
   },
   {
     id: 'B',
     num: 1,
     coords: { top: 83.1, left: 91, width: 1.05, height: 1.4 },
     border: { top: 81.45, left: 52.5, bottom: 84.5, right: 92.05 },
+    layout: serpentineRowLayout,
   },
   {
     id: 'C',
     num: 1,
     coords: { top: 78.4, left: 91, width: 1.05, height: 1.4 },
     border: { top: 76.75, left: 52.5, bottom: 79.8, right: 92.05 },
+    layout: serpentineRowLayout,
   },
   {
     id: 'D',
     num: 1,
     coords: { top: 73.5, left: 91, width: 1.05, height: 1.4 },
     border: { top: 71.85, left: 52.5, bottom: 74.9, right: 92.05 },
+    layout: serpentineRowLayout,
   },
   {
     id: 'E',
     num: 1,
     coords: { top: 68.5, left: 91, width: 1.05, height: 1.4 },
     border: { top: 66.85, left: 52.5, bottom: 69.9, right: 92.05 },
+    layout: serpentineRowLayout,
   },
   {
     id: 'F',
     num: 1,
     coords: { top: 63.9, left: 91, width: 1.05, height: 1.4 },
     border: { top: 62.25, left: 52.5, bottom: 65.3, right: 92.05 },
+    layout: serpentineRowLayout,
   },
   {
     id: 'G',
     num: 1,
     coords: { top: 59.1, left: 91, width: 1.05, height: 1.4 },
     border: { top: 57.45, left: 52.5, bottom: 60.5, right: 92.05 },
+    layout: serpentineRowLayout,
   },
   {
     id: 'H',
     num: 1,
     coords: { top: 54.3, left: 91, width: 1.05, height: 1.4 },
     border: { top: 52.65, left: 52.5, bottom: 55.7, right: 92.05 },
+    layout: serpentineRowLayout,
   },
   {
     id: 'I',
     num: 1,
     coords: { top: 49.5, left: 91, width: 1.05, height: 1.4 },
     border: { top: 47.85, left: 52.5, bottom: 50.9, right: 92.05 },
+    layout: serpentineRowLayout,
   },
   {
     id: 'J',
     num: 1,
     coords: { top: 44.5, left: 91, width: 1.05, height: 1.4 },
     border: { top: 42.85, left: 52.5, bottom: 45.9, right: 92.05 },
+    layout: serpentineRowLayout,
   },
   {
     id: 'K',
     num: 1,
     coords: { top: 39.6, left: 91, width: 1.05, height: 1.4 },
     border: { top: 37.95, left: 52.5, bottom: 41.0, right: 92.05 },
+    layout: serpentineRowLayout,
   },
   {
     id: 'L',
     num: 1,
     coords: { top: 34.8, left: 91, width: 1.05, height: 1.4 },
     border: { top: 33.15, left: 52.5, bottom: 36.2, right: 92.05 },
+    layout: serpentineRowLayout,
   },
   {
     id: 'M',
     num: 1,
     coords: { top: 30.1, left: 91, width: 1.05, height: 1.4 },
     border: { top: 28.45, left: 52.5, bottom: 31.5, right: 92.05 },
+    layout: serpentineRowLayout,
   },
   {
     id: 'N',
     num: 1,
     coords: { top: 25.2, left: 91, width: 1.05, height: 1.4 },
     border: { top: 23.55, left: 52.5, bottom: 26.6, right: 92.05 },
+    layout: serpentineRowLayout,
   },
   {
     id: 'O',
     num: 1,
     coords: { top: 20.4, left: 91, width: 1.05, height: 1.4 },
     border: { top: 18.75, left: 52.5, bottom: 21.8, right: 92.05 },
+    layout: serpentineRowLayout,
   },
   {
     id: 'P',
     num: 1,
     coords: { top: 15.6, left: 91, width: 1.05, height: 1.4 },
     border: { top: 13.95, left: 52.5, bottom: 17.0, right: 92.05 },
+    layout: serpentineRowLayout,
   },
   {
     id: 'Q',
     num: 1,
     coords: { top: 10.8, left: 91, width: 1.05, height: 1.4 },
     border: { top: 9.15, left: 52.5, bottom: 12.2, right: 92.05 },
+    layout: serpentineRowLayout,
   },
   {
     id: 'R',
     num: 1,
     coords: { top: 87.8, left: 46.3, width: 1.05, height: 1.4 },
     border: { top: 86.15, left: 7.8, bottom: 89.2, right: 47.35 },
+    layout: serpentineRowLayout,
   },
   {
     id: 'S',
     num: 1,
     coords: { top: 83.1, left: 46.3, width: 1.05, height: 1.4 },
     border: { top: 81.45, left: 7.8, bottom: 84.5, right: 47.35 },
+    layout: serpentineRowLayout,
   },
   {
     id: 'T',
     num: 1,
     coords: { top: 78.4, left: 46.3, width: 1.05, height: 1.4 },
     border: { top: 76.75, left: 7.8, bottom: 79.8, right: 47.35 },
+    layout: serpentineRowLayout,
   },
   {
     id: 'U',
     num: 1,
     coords: { top: 73.5, left: 46.3, width: 1.05, height: 1.4 },
     border: { top: 71.85, left: 7.8, bottom: 74.9, right: 47.35 },
+    layout: serpentineRowLayout,
   },
   {
     id: 'V',
     num: 1,
     coords: { top: 68.7, left: 46.3, width: 1.05, height: 1.4 },
     border: { top: 67.05, left: 7.8, bottom: 70.1, right: 47.35 },
+    layout: serpentineRowLayout,
   },
   {
     id: 'W',
     num: 1,
     coords: { top: 63.9, left: 46.3, width: 1.05, height: 1.4 },
     border: { top: 62.25, left: 7.8, bottom: 65.3, right: 47.35 },
+    layout: serpentineRowLayout,
   },
   {
     id: 'X',
     num: 1,
     coords: { top: 59.1, left: 46.3, width: 1.05, height: 1.4 },
     border: { top: 57.45, left: 7.8, bottom: 60.5, right: 47.35 },
+    layout: serpentineRowLayout,
   },
   {
     id: 'Y',
     num: 1,
     coords: { top: 54.3, left: 46.3, width: 1.05, height: 1.4 },
     border: { top: 52.65, left: 7.8, bottom: 55.7, right: 47.35 },
+    layout: serpentineRowLayout,
   },
   {
     id: 'Z',
     num: 1,
     coords: { top: 49.5, left: 46.3, width: 1.05, height: 1.4 },
     border: { top: 47.85, left: 7.8, bottom: 50.9, right: 47.35 },
+    layout: serpentineRowLayout,
   },
   {
     id: '鼠',
     num: 1,
     coords: { top: 44.5, left: 46.3, width: 1.05, height: 1.4 },
     border: { top: 42.85, left: 7.8, bottom: 45.9, right: 47.35 },
+    layout: serpentineRowLayout,
   },
   {
     id: '牛',
     num: 1,
     coords: { top: 39.6, left: 46.3, width: 1.05, height: 1.4 },
     border: { top: 37.95, left: 7.8, bottom: 41.0, right: 47.35 },
+    layout: serpentineRowLayout,
   },
   {
     id: '虎',
     num: 1,
     coords: { top: 34.9, left: 46.3, width: 1.05, height: 1.4 },
     border: { top: 33.25, left: 7.8, bottom: 36.3, right: 47.35 },
+    layout: serpentineRowLayout,
   },
   {
     id: '兔',
     num: 1,
     coords: { top: 30.1, left: 46.3, width: 1.05, height: 1.4 },
     border: { top: 28.45, left: 7.8, bottom: 31.5, right: 47.35 },
+    layout: serpentineRowLayout,
   },
   {
     id: '龍',
     num: 1,
     coords: { top: 25.2, left: 46.3, width: 1.05, height: 1.4 },
     border: { top: 23.55, left: 7.8, bottom: 26.6, right: 47.35 },
+    layout: serpentineRowLayout,
   },
   {
     id: '蛇',
     num: 1,
     coords: { top: 20.4, left: 46.3, width: 1.05, height: 1.4 },
     border: { top: 18.75, left: 7.8, bottom: 21.8, right: 47.35 },
+    layout: serpentineRowLayout,
   },
   {
     id: '馬',
     num: 1,
     coords: { top: 15.6, left: 46.3, width: 1.05, height: 1.4 },
     border: { top: 13.95, left: 7.8, bottom: 17.0, right: 47.35 },
+    layout: serpentineRowLayout,
   },
   {
     id: '羊',
     num: 1,
     coords: { top: 10.8, left: 46.3, width: 1.05, height: 1.4 },
     border: { top: 9.15, left: 7.8, bottom: 12.2, right: 47.35 },
+    layout: serpentineRowLayout,
   },
   {
     id: '猴',
     num: 1,
     coords: { top: 73.5, left: 4.5, width: 1.1, height: 1.44 },
     border: { top: 52.7, left: 4.5, bottom: 74.9, right: 5.55 },
+    layout: {
+      direction: 'up',
+      sharedSlots: [{ from: 4, to: 22, slot: 2 }],
+      gaps: [
+        { from: 4, to: 22, size: 0.8 },
+        { from: 23, size: 0.5 },
+      ],
+    },
     isGrouped: true,
   },
   {
@@ -229,6 +286,14 @@ export const locateStalls: LocateStall[] = [
     num: 1,
     coords: { top: 43.7, left: 4.5, width: 1.1, height: 1.44 },
     border: { top: 23, left: 4.5, bottom: 45.6, right: 5.55 },
+    layout: {
+      direction: 'up',
+      sharedSlots: [{ from: 4, to: 20, slot: 2 }],
+      gaps: [
+        { from: 4, to: 20, size: 0.8 },
+        { from: 21, size: 0.4 },
+      ],
+    },
     isGrouped: true,
   },
   {
@@ -236,6 +301,14 @@ export const locateStalls: LocateStall[] = [
     num: 1,
     coords: { top: 18.2, left: 4.5, width: 1.1, height: 1.44 },
     border: { top: 7.5, left: 4.5, bottom: 19.8, right: 5.55 },
+    layout: {
+      direction: 'up',
+      sharedSlots: [{ from: 4, to: 15, slot: 2 }],
+      gaps: [
+        { from: 4, to: 15, size: 0.8 },
+        { from: 16, size: 0.4 },
+      ],
+    },
     isGrouped: true,
   },
   {
@@ -243,6 +316,7 @@ export const locateStalls: LocateStall[] = [
     num: 1,
     coords: { top: 84.4, left: 4.15, width: 1.8, height: 2.41 },
     border: { top: 77.15, left: 4.15, bottom: 87.2, right: 5.75 },
+    layout: { direction: 'up' },
     isGrouped: true,
   },
   {
@@ -250,6 +324,7 @@ export const locateStalls: LocateStall[] = [
     num: 1,
     coords: { top: 89.5, left: 4.15, width: 1.8, height: 2.41 },
     border: { top: 87.5, left: 4.15, bottom: 91.5, right: 5.75 },
+    layout: { direction: 'up' },
     isGrouped: true,
   },
   {
@@ -257,5 +332,81 @@ export const locateStalls: LocateStall[] = [
     num: 1,
     coords: { top: 0.5, left: 91, width: 5, height: 5 },
     border: { top: 0.5, left: 86, bottom: 5.5, right: 96 },
+    layout: { direction: 'left' },
   },
 ];
+
+/**
+ * The rows in the order moving up the map visits them: the lettered rows from the
+ * bottom, then the zodiac columns and the special rows. The sample row 範 is left out.
+ */
+export const nice0816RowOrder = [
+  'A',
+  'B',
+  'C',
+  'D',
+  'E',
+  'F',
+  'G',
+  'H',
+  'I',
+  'J',
+  'K',
+  'L',
+  'M',
+  'N',
+  'O',
+  'P',
+  'Q',
+  'R',
+  'S',
+  'T',
+  'U',
+  'V',
+  'W',
+  'X',
+  'Y',
+  'Z',
+  '鼠',
+  '牛',
+  '虎',
+  '兔',
+  '龍',
+  '蛇',
+  '馬',
+  '羊',
+  '商',
+  '特',
+  '猴',
+  '雞',
+  '狗',
+];
+
+/** NiCE 創·迴響, 2025/08/16. */
+export const nice0816Event: EventConfig = {
+  id: 'nice-0816',
+  name: 'NiCE 創·迴響 互動地圖',
+  pageTitle: '08/16 NiCE 創·迴響 互動地圖',
+  startDate: '2025-08-16',
+  endDate: '2025-08-16',
+  mapImage: {
+    src: 'https://cdn.jsdelivr.net/gh/v4724/nice-0816@c6b3cd1/assets/stalls-map.jpg',
+    alt: 'Neo iComic Echo Venue Map',
+  },
+  locateStalls: nice0816LocateStalls,
+  rowOrder: nice0816RowOrder,
+  // In Google Sheets: File > Share > Publish to web > Select a sheet & "Comma-separated values (.csv)" > Publish.
+  dataSource:
+    'csv:https://docs.google.com/spreadsheets/d/e/2PACX-1vSekTVRYingSPdcpjSzVazPOJRJr_SxAyQV1lvqvgzvoW6BtnP8aEoVOo1sZSF6tJ27tLXv7JvxCPP9/pub?output=csv&gid=0&single=true',
+  assets: {
+    localDir: 'assets/2025/',
+    cdnBase: 'https://cdn.jsdelivr.net/gh/v4724/nice-0816',
+    version: 'd24cd07',
+  },
+  legend: [
+    { className: 'legend-default', label: '攤位' },
+    { className: 'legend-promo', label: '宣傳車' },
+    { className: 'legend-search', label: '搜尋結果' },
+    { className: 'legend-selected', label: '選擇中' },
+  ],
+};
@@ -0,0 +1,213 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { planRoute } from './route-planner.ts';
+import type { RouteStep } from './route-planner.ts';
+import { formatStallLabel, parseStallId } from './stall-id.ts';
+import type { StallData } from './types.ts';
+
+const SVG_NS = 'http://www.w3.org/2000/svg';
+
+// Separators between the IDs of a stall list. Commas inside an ID ("K61,K62")
+// aren't supported here; the other joint notations ("K61K62", "F38-40") are.
+const LIST_SEPARATOR_PATTERN = /[\s,，、;；]+/;
+
+/** The elements of the route planner panel. */
+export interface RoutePanelElements {
+  /** The stall list the route is planned for. */
+  input: HTMLTextAreaElement;
+  planButton: HTMLButtonElement;
+  /** Adds the current search matches to the list. */
+  addMatchesButton: HTMLButtonElement;
+  clearButton: HTMLButtonElement;
+  /** Reports problems, e.g. IDs that aren't on the map. */
+  message: HTMLElement;
+  /** The numbered list of stops. */
+  steps: HTMLElement;
+  /** The layers the route is drawn on: the map and the magnifier. */
+  overlayContainers: HTMLElement[];
+}
+
+/** Callbacks through which the route planner talks to the rest of the app. */
+export interface RoutePanelHandlers {
+  /** Called when a stop in the list is chosen. */
+  onSelect: (stallId: string) => void;
+  /** Returns the IDs of the stalls matching the current search. */
+  getMatchedStallIds: () => string[];
+}
+
+/**
+ * Looks up the stalls named in a list of IDs. Any notation `parseStallId` accepts
+ * works, and a joint stall can be named by any of its tables.
+ * @param text The list, separated by spaces, commas or new lines.
+ * @param stalls The stalls on the map.
+ * @returns The stalls found, in list order without repeats, and the IDs that
+ *   matched no stall.
+ */
+function resolveStallList(
+  text: string,
+  stalls: StallData[],
+): { found: StallData[]; unknown: string[] } {
+  const stallsByMemberId = new Map<string, StallData>();
+  stalls.forEach((stall) =>
+    stall.memberIds.forEach((id) => stallsByMemberId.set(id, stall)),
+  );
+
+  const found = new Set<StallData>();
+  const unknown: string[] = [];
+  text
+    .split(LIST_SEPARATOR_PATTERN)
+    .filter(Boolean)
+    .forEach((token) => {
+      const parsed = parseStallId(token);
+      const stall = parsed?.memberIds
+        .map((id) => stallsByMemberId.get(id))
+        .find(Boolean);
+      if (stall) {
+        found.add(stall);
+      } else {
+        unknown.push(token);
+      }
+    });
+  return { found: [...found], unknown };
+}
+
+/**
+ * Draws a route onto one layer: the path as a line, and a numbered marker on each
+ * stop's table.
+ * @param container The layer to draw on, sized like the map.
+ * @param steps The planned stops.
+ * @returns The overlay element.
+ */
+function createRouteOverlay(
+  container: HTMLElement,
+  steps: RouteStep[],
+): HTMLElement {
+  const overlay = document.createElement('div');
+  overlay.className = 'route-overlay';
+  overlay.setAttribute('aria-hidden', 'true');
+
+  // Coordinates are in map percent, so a 100×100 view box stretched over the map
+  // lines up with the stall areas.
+  const svg = document.createElementNS(SVG_NS, 'svg');
+  svg.setAttribute('class', 'route-path');
+  svg.setAttribute('viewBox', '0 0 100 100');
+  svg.setAttribute('preserveAspectRatio', 'none');
+  const line = document.createElementNS(SVG_NS, 'polyline');
+  line.setAttribute(
+    'points',
+    steps
+      .flatMap((step) => step.path)
+      .map(({ x, y }) => `${x.toFixed(2)},${y.toFixed(2)}`)
+      .join(' '),
+  );
+  svg.appendChild(line);
+  overlay.appendChild(svg);
+
+  steps.forEach((step, i) => {
+    const { top, left, width, height } = step.stall.numericCoords;
+    const marker = document.createElement('span');
+    marker.className = 'route-marker';
+    marker.style.left = `${left + width / 2}%`;
+    marker.style.top = `${top + height / 2}%`;
+    marker.textContent = String(i + 1);
+    overlay.appendChild(marker);
+  });
+
+  container.appendChild(overlay);
+  return overlay;
+}
+
+/**
+ * Creates the route planner: the user lists the stalls they want to visit, and
+ * gets the order that keeps the walk shortest, drawn on the map and in the
+ * magnifier as a numbered path, with a list of the stops.
+ * @param elements The panel's elements.
+ * @param getStalls Returns the stalls currently on the map.
+ * @param getAspectRatio Returns the map's width divided by its height.
+ * @param handlers Callbacks for choosing stops and reading the search.
+ */
+export function createRoutePanel(
+  elements: RoutePanelElements,
+  getStalls: () => StallData[],
+  getAspectRatio: () => number,
+  handlers: RoutePanelHandlers,
+) {
+  let overlays: HTMLElement[] = [];
+
+  /**
+   * Replaces the drawn route and the list of stops.
+   * @param steps The planned stops; empty to clear the route.
+   */
+  const render = (steps: RouteStep[]) => {
+    overlays.forEach((overlay) => overlay.remove());
+    overlays =
+      steps.length > 0
+        ? elements.overlayContainers.map((container) =>
+            createRouteOverlay(container, steps),
+          )
+        : [];
+
+    const items = steps.map((step, i) => {
+      const item = document.createElement('li');
+      item.className = 'route-step';
+      item.dataset.stallId = step.stall.id;
+
+      const number = document.createElement('span');
+      number.className = 'route-step-number';
+      number.textContent = String(i + 1);
+
+      const id = document.createElement('span');
+      id.className = 'route-step-id';
+      id.textContent = formatStallLabel(step.stall);
+
+      const title = document.createElement('span');
+      title.className = 'route-step-title';
+      title.textContent = step.stall.stallTitle;
+
+      item.append(number, id, title);
+      return item;
+    });
+    elements.steps.replaceChildren(...items);
+  };
+
+  const plan = () => {
+    const { found, unknown } = resolveStallList(
+      elements.input.value,
+      getStalls(),
+    );
+    const notes: string[] = [];
+    if (unknown.length > 0) notes.push(`找不到攤位：${unknown.join('、')}`);
+    if (found.length === 0) notes.push('請輸入至少一個攤位編號。');
+    elements.message.textContent = notes.join(' ');
+    render(planRoute(found, getAspectRatio()));
+  };
+
+  elements.planButton.addEventListener('click', plan);
+
+  elements.addMatchesButton.addEventListener('click', () => {
+    const ids = handlers.getMatchedStallIds();
+    if (ids.length === 0) {
+      elements.message.textContent = '目前沒有搜尋結果可加入。';
+      return;
+    }
+    const current = elements.input.value.trim();
+    elements.input.value = [current, ...ids].filter(Boolean).join(' ');
+    elements.message.textContent = '';
+  });
+
+  elements.clearButton.addEventListener('click', () => {
+    elements.input.value = '';
+    elements.message.textContent = '';
+    render([]);
+  });
+
+  elements.steps.addEventListener('click', (e) => {
+    const item = (e.target as HTMLElement).closest(
+      '.route-step',
+    ) as HTMLElement | null;
+    if (item?.dataset.stallId) handlers.onSelect(item.dataset.stallId);
+  });
+}
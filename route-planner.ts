@@ -0,0 +1,373 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { locateStalls } from './event-config.ts';
+import type { StallData } from './types.ts';
+
+/** A point on the map, in percent of its width (x) and height (y). */
+export interface MapPoint {
+  x: number;
+  y: number;
+}
+
+/** One stop of a planned route. */
+export interface RouteStep {
+  stall: StallData;
+  /**
+   * The walk from the previous stop's table to this one, along the aisles. Empty
+   * for the first stop.
+   */
+  path: MapPoint[];
+}
+
+/**
+ * The walkable floor of the hall as a grid of square cells. Cells overlapping a
+ * row's border are tables; everything else is aisle.
+ */
+interface AisleGrid {
+  columns: number;
+  rows: number;
+  /** The width of a cell, in percent of the map's width. */
+  cellWidth: number;
+  /** 1 for every cell covered by a row of tables. */
+  blocked: Uint8Array;
+}
+
+// The height of a grid cell, in percent of the map's height. The aisles between
+// rows are under 2% high, which leaves a few cells across each.
+const CELL_SIZE = 0.5;
+
+// A stop cut off from the others (e.g. by a mis-calibrated row) is still visited,
+// but ranked as if the walk were this many times the straight line.
+const UNREACHABLE_PENALTY = 4;
+
+// The grid only depends on the map's shape, so it's built once per aspect ratio.
+let cachedGrid: { aspectRatio: number; grid: AisleGrid } | null = null;
+
+/**
+ * Builds the aisle grid, blocking every cell a row's border touches so routes
+ * can't cut across the corner of a row.
+ * @param aspectRatio The map's width divided by its height.
+ */
+function buildAisleGrid(aspectRatio: number): AisleGrid {
+  const cellWidth = CELL_SIZE / aspectRatio;
+  const columns = Math.ceil(100 / cellWidth);
+  const rows = Math.ceil(100 / CELL_SIZE);
+  const blocked = new Uint8Array(columns * rows);
+
+  locateStalls.forEach(({ border }) => {
+    const firstColumn = Math.max(0, Math.floor(border.left / cellWidth));
+    const lastColumn = Math.min(
+      columns - 1,
+      Math.floor(border.right / cellWidth),
+    );
+    const firstRow = Math.max(0, Math.floor(border.top / CELL_SIZE));
+    const lastRow = Math.min(rows - 1, Math.floor(border.bottom / CELL_SIZE));
+    for (let row = firstRow; row <= lastRow; row++) {
+      blocked.fill(
+        1,
+        row * columns + firstColumn,
+        row * columns + lastColumn + 1,
+      );
+    }
+  });
+  return { columns, rows, cellWidth, blocked };
+}
+
+/**
+ * Returns the aisle grid for a map shape, building it on first use.
+ * @param aspectRatio The map's width divided by its height.
+ */
+function getAisleGrid(aspectRatio: number): AisleGrid {
+  if (cachedGrid?.aspectRatio !== aspectRatio) {
+    cachedGrid = { aspectRatio, grid: buildAisleGrid(aspectRatio) };
+  }
+  return cachedGrid.grid;
+}
+
+/**
+ * Returns the center of a stall's table area.
+ * @param stall The stall.
+ */
+function getStallCenter(stall: StallData): MapPoint {
+  const { top, left, width, height } = stall.numericCoords;
+  return { x: left + width / 2, y: top + height / 2 };
+}
+
+/**
+ * Returns the center of a cell, in map percent.
+ * @param grid The aisle grid.
+ * @param cell The cell's index.
+ */
+function getCellCenter(grid: AisleGrid, cell: number): MapPoint {
+  return {
+    x: ((cell % grid.columns) + 0.5) * grid.cellWidth,
+    y: (Math.floor(cell / grid.columns) + 0.5) * CELL_SIZE,
+  };
+}
+
+/**
+ * Lists the cells next to a cell (no diagonals) that lie inside the grid.
+ * @param grid The aisle grid.
+ * @param cell The cell's index.
+ */
+function getNeighborCells(grid: AisleGrid, cell: number): number[] {
+  const column = cell % grid.columns;
+  const neighbors: number[] = [];
+  if (cell >= grid.columns) neighbors.push(cell - grid.columns);
+  if (cell < grid.columns * (grid.rows - 1)) {
+    neighbors.push(cell + grid.columns);
+  }
+  if (column > 0) neighbors.push(cell - 1);
+  if (column < grid.columns - 1) neighbors.push(cell + 1);
+  return neighbors;
+}
+
+/**
+ * Finds the aisle cell a stall is visited from: the free cell nearest to the
+ * middle of its table. On a two-line row this is the aisle on the table's side.
+ * @param grid The aisle grid.
+ * @param point The table's center.
+ */
+function findAisleCell(grid: AisleGrid, point: MapPoint): number {
+  const column = Math.min(
+    grid.columns - 1,
+    Math.max(0, Math.floor(point.x / grid.cellWidth)),
+  );
+  const row = Math.min(
+    grid.rows - 1,
+    Math.max(0, Math.floor(point.y / CELL_SIZE)),
+  );
+  const start = row * grid.columns + column;
+
+  const visited = new Uint8Array(grid.blocked.length);
+  visited[start] = 1;
+  const queue = [start];
+  for (let head = 0; head < queue.length; head++) {
+    const cell = queue[head];
+    if (!grid.blocked[cell]) return cell;
+    getNeighborCells(grid, cell).forEach((next) => {
+      if (!visited[next]) {
+        visited[next] = 1;
+        queue.push(next);
+      }
+    });
+  }
+  return start;
+}
+
+/**
+ * Measures the walking distance from one cell to every other, through the aisles.
+ * @param grid The aisle grid.
+ * @param origin The cell to measure from.
+ * @returns The distance of every cell in steps, or -1 where it can't be reached.
+ */
+function measureDistances(grid: AisleGrid, origin: number): Int32Array {
+  const distances = new Int32Array(grid.blocked.length).fill(-1);
+  distances[origin] = 0;
+  const queue = new Int32Array(grid.blocked.length);
+  queue[0] = origin;
+  let tail = 1;
+  for (let head = 0; head < tail; head++) {
+    const cell = queue[head];
+    getNeighborCells(grid, cell).forEach((next) => {
+      if (distances[next] === -1 && !grid.blocked[next]) {
+        distances[next] = distances[cell] + 1;
+        queue[tail++] = next;
+      }
+    });
+  }
+  return distances;
+}
+
+/**
+ * Checks that the straight line between two cells stays in the aisles.
+ * @param grid The aisle grid.
+ * @param from The first cell.
+ * @param to The second cell.
+ */
+function hasLineOfSight(grid: AisleGrid, from: number, to: number): boolean {
+  const x0 = (from % grid.columns) + 0.5;
+  const y0 = Math.floor(from / grid.columns) + 0.5;
+  const dx = (to % grid.columns) + 0.5 - x0;
+  const dy = Math.floor(to / grid.columns) + 0.5 - y0;
+  // Sample every quarter cell, which is fine enough not to skip one.
+  const samples = Math.ceil(Math.max(Math.abs(dx), Math.abs(dy)) * 4);
+  for (let i = 1; i < samples; i++) {
+    const column = Math.floor(x0 + (dx * i) / samples);
+    const row = Math.floor(y0 + (dy * i) / samples);
+    if (grid.blocked[row * grid.columns + column]) return false;
+  }
+  return true;
+}
+
+/**
+ * Traces the shortest walk between two cells and straightens it, so it runs
+ * diagonally across open floor instead of in a staircase.
+ * @param grid The aisle grid.
+ * @param from The cell to start at.
+ * @param to The cell to walk to.
+ * @param distancesToTarget The distances to `to`, from `measureDistances`.
+ * @returns The corners of the walk, from `from` to `to`.
+ */
+function traceWalk(
+  grid: AisleGrid,
+  from: number,
+  to: number,
+  distancesToTarget: Int32Array,
+): number[] {
+  if (distancesToTarget[from] === -1) return [from, to];
+
+  // Step downhill towards the target, going straight on where there's a choice.
+  const cells = [from];
+  let cell = from;
+  let heading = 0;
+  while (cell !== to) {
+    const downhill = getNeighborCells(grid, cell).filter(
+      (next) => distancesToTarget[next] === distancesToTarget[cell] - 1,
+    );
+    const next = downhill.find((c) => c - cell === heading) ?? downhill[0];
+    heading = next - cell;
+    cell = next;
+    cells.push(cell);
+  }
+
+  // Keep only the corners where the straight line would hit a table.
+  const corners = [from];
+  let anchor = 0;
+  for (let i = 2; i < cells.length; i++) {
+    if (!hasLineOfSight(grid, cells[anchor], cells[i])) {
+      corners.push(cells[i - 1]);
+      anchor = i - 1;
+    }
+  }
+  if (cells.length > 1) corners.push(to);
+  return corners;
+}
+
+/**
+ * Returns the length of a visiting order.
+ * @param order The stop indices, in visiting order.
+ * @param costs The walking distance between every two stops.
+ */
+function getRouteLength(order: number[], costs: number[][]): number {
+  let length = 0;
+  for (let i = 1; i < order.length; i++) {
+    length += costs[order[i - 1]][order[i]];
+  }
+  return length;
+}
+
+/**
+ * Builds a visiting order greedily: from a starting stop, always walk to the
+ * nearest stop not yet visited.
+ * @param start The stop to start at.
+ * @param costs The walking distance between every two stops.
+ */
+function orderByNearestStop(start: number, costs: number[][]): number[] {
+  const order = [start];
+  const isVisited = costs.map((_, i) => i === start);
+  while (order.length < costs.length) {
+    const current = order[order.length - 1];
+    let nearest = -1;
+    costs[current].forEach((cost, i) => {
+      if (!isVisited[i] && (nearest === -1 || cost < costs[current][nearest])) {
+        nearest = i;
+      }
+    });
+    isVisited[nearest] = true;
+    order.push(nearest);
+  }
+  return order;
+}
+
+/**
+ * Improves a visiting order with 2-opt: any stretch of the route that is shorter
+ * walked backwards is reversed, until no reversal helps. This untangles the
+ * crossings the greedy order leaves behind.
+ * @param order The stop indices, in visiting order. Modified in place.
+ * @param costs The walking distance between every two stops.
+ */
+function improveOrder(order: number[], costs: number[][]) {
+  /**
+   * Returns the distance between two positions of the order; 0 past either end,
+   * since the route is open.
+   */
+  const cost = (a: number, b: number) =>
+    a < 0 || b >= order.length ? 0 : costs[order[a]][order[b]];
+
+  let improved = true;
+  while (improved) {
+    improved = false;
+    for (let i = 0; i < order.length - 1; i++) {
+      for (let j = i + 1; j < order.length; j++) {
+        const change =
+          cost(i - 1, j) + cost(i, j + 1) - cost(i - 1, i) - cost(j, j + 1);
+        if (change < -1e-9) {
+          const reversed = order.slice(i, j + 1).reverse();
+          order.splice(i, reversed.length, ...reversed);
+          improved = true;
+        }
+      }
+    }
+  }
+}
+
+/**
+ * Plans a walk past a list of stalls: the order that keeps the total walk short,
+ * and the way from each stop to the next along the aisles, never across a row of
+ * tables. The route starts at whichever stall makes it shortest.
+ * @param stalls The stalls to visit, each once.
+ * @param aspectRatio The map's width divided by its height, so distances across
+ *   and along the hall are comparable.
+ * @returns The stops in visiting order.
+ */
+export function planRoute(
+  stalls: StallData[],
+  aspectRatio: number,
+): RouteStep[] {
+  if (stalls.length === 0) return [];
+  const grid = getAisleGrid(aspectRatio);
+  const centers = stalls.map(getStallCenter);
+  const cells = centers.map((center) => findAisleCell(grid, center));
+  const distances = cells.map((cell) => measureDistances(grid, cell));
+
+  const costs = cells.map((from, i) =>
+    cells.map((to, j) => {
+      const steps = distances[j][from];
+      if (steps !== -1 || i === j) return Math.max(steps, 0);
+      const a = getCellCenter(grid, from);
+      const b = getCellCenter(grid, to);
+      const straight = Math.hypot((a.x - b.x) * aspectRatio, a.y - b.y);
+      return (straight / CELL_SIZE) * UNREACHABLE_PENALTY;
+    }),
+  );
+
+  let order: number[] = [];
+  let bestLength = Infinity;
+  stalls.forEach((_, start) => {
+    const candidate = orderByNearestStop(start, costs);
+    const length = getRouteLength(candidate, costs);
+    if (length < bestLength) {
+      order = candidate;
+      bestLength = length;
+    }
+  });
+  improveOrder(order, costs);
+
+  return order.map((stop, i) => {
+    if (i === 0) return { stall: stalls[stop], path: [] };
+    const previous = order[i - 1];
+    const walk = traceWalk(grid, cells[previous], cells[stop], distances[stop]);
+    return {
+      stall: stalls[stop],
+      path: [
+        centers[previous],
+        ...walk.map((cell) => getCellCenter(grid, cell)),
+        centers[stop],
+      ],
+    };
+  });
+}
@@ -0,0 +1,255 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { normalizeText } from './text-normalize.ts';
+import type { SearchField } from './search.ts';
+import type { StallData } from './types.ts';
+
+/** The fields suggestions are drawn from, in the order their groups are shown. */
+type SuggestionField = Exclude<SearchField, 'row'>;
+
+/** A value that can be suggested, with the number of stalls it appears on. */
+interface Suggestion {
+  field: SuggestionField;
+  value: string;
+  /** The normalised value, for matching. */
+  normalized: string;
+  count: number;
+}
+
+const SUGGESTION_GROUPS: { field: SuggestionField; label: string }[] = [
+  { field: 'id', label: '攤位編號' },
+  { field: 'title', label: '社團名稱' },
+  { field: 'user', label: '宣傳者' },
+  { field: 'tag', label: '標籤' },
+];
+
+const MAX_PER_GROUP = 5;
+
+// The token being typed at the end of the query: an optional `-`, an optional
+// `field:` and the (possibly open-quoted) text so far.
+const LAST_TOKEN_PATTERN = /(-?)(?:([a-z]+):)?"?([^"\s]*)$/i;
+
+/**
+ * Builds the suggestion index: every stall ID, title, promo user and tag, with the
+ * number of stalls it appears on.
+ * @param stalls The stalls to index.
+ */
+function buildSuggestionIndex(stalls: StallData[]): Suggestion[] {
+  const byKey = new Map<string, Suggestion>();
+  const add = (field: SuggestionField, value: string) => {
+    if (!value) return;
+    const key = `${field}\u0000${value}`;
+    const existing = byKey.get(key);
+    if (existing) {
+      existing.count++;
+    } else {
+      byKey.set(key, {
+        field,
+        value,
+        normalized: normalizeText(value),
+        count: 1,
+      });
+    }
+  };
+
+  stalls.forEach((stall) => {
+    stall.memberIds.forEach((id) => add('id', id));
+    add('title', stall.stallTitle);
+    new Set(stall.promoData.map((promo) => promo.promoUser)).forEach((user) =>
+      add('user', user),
+    );
+    stall.promoTags.forEach((tag) => add('tag', tag));
+  });
+  return [...byKey.values()];
+}
+
+/**
+ * Formats a suggestion as a qualified query term, quoting values with spaces,
+ * e.g. `tag:原創` or `title:"範例社團 A"`.
+ * @param suggestion The suggestion.
+ */
+function formatQualifiedTerm(suggestion: Suggestion): string {
+  const value = /[\s"]/.test(suggestion.value)
+    ? `"${suggestion.value.replace(/"/g, '')}"`
+    : suggestion.value;
+  return `${suggestion.field}:${value}`;
+}
+
+/**
+ * Attaches an autocomplete dropdown to the search box. As the user types, values
+ * containing the last word are suggested, grouped by type; choosing one replaces
+ * that word with a qualified term (e.g. `user:名字`). ArrowUp/ArrowDown move
+ * through the suggestions, Enter or Tab applies one and Escape closes the list.
+ * Nothing changes while an IME composition is in progress, so Chinese and Japanese
+ * input isn't interrupted.
+ *
+ * Create this before other keyboard handlers on the search box: keys it handles
+ * are marked with `preventDefault()`, and those handlers should ignore them.
+ * @param searchInput The search box.
+ * @param dropdown The list element suggestions are rendered into.
+ * @param getStalls Returns the current stalls; the index is rebuilt when they change.
+ */
+export function createSearchAutocomplete(
+  searchInput: HTMLInputElement,
+  dropdown: HTMLElement,
+  getStalls: () => StallData[],
+) {
+  let indexedStalls: StallData[] | null = null;
+  let index: Suggestion[] = [];
+  let options: { element: HTMLElement; suggestion: Suggestion }[] = [];
+  let activeIndex = -1;
+  let isComposing = false;
+
+  /** Returns the suggestion index, rebuilding it if the stalls were replaced. */
+  const getIndex = (): Suggestion[] => {
+    const stalls = getStalls();
+    if (stalls !== indexedStalls) {
+      index = buildSuggestionIndex(stalls);
+      indexedStalls = stalls;
+    }
+    return index;
+  };
+
+  const close = () => {
+    dropdown.classList.add('hidden');
+    dropdown.replaceChildren();
+    options = [];
+    activeIndex = -1;
+    searchInput.setAttribute('aria-expanded', 'false');
+  };
+
+  /**
+   * Marks a suggestion as the keyboard-active one.
+   * @param nextIndex The suggestion's index, or -1 for none.
+   */
+  const setActive = (nextIndex: number) => {
+    options[activeIndex]?.element.classList.remove('is-active');
+    activeIndex = nextIndex;
+    const option = options[activeIndex];
+    if (option) {
+      option.element.classList.add('is-active');
+      option.element.scrollIntoView({ block: 'nearest' });
+    }
+  };
+
+  /**
+   * Replaces the word being typed with the chosen suggestion and re-runs the search.
+   * @param suggestion The chosen suggestion.
+   */
+  const apply = (suggestion: Suggestion) => {
+    const value = searchInput.value;
+    const token = LAST_TOKEN_PATTERN.exec(value)!;
+    const minus = token[1];
+    searchInput.value = `${value.slice(0, token.index)}${minus}${formatQualifiedTerm(suggestion)} `;
+    close();
+    searchInput.dispatchEvent(new Event('input'));
+  };
+
+  /** Re-renders the suggestions for the word being typed. */
+  const update = () => {
+    const token = LAST_TOKEN_PATTERN.exec(searchInput.value);
+    const qualifier = token?.[2]?.toLowerCase();
+    const text = normalizeText(token?.[3] ?? '');
+    if (!text) {
+      close();
+      return;
+    }
+
+    dropdown.replaceChildren();
+    options = [];
+    activeIndex = -1;
+
+    SUGGESTION_GROUPS.filter(
+      ({ field }) => !qualifier || field === qualifier,
+    ).forEach(({ field, label }) => {
+      const matches = getIndex()
+        .filter((s) => s.field === field && s.normalized.includes(text))
+        // Values starting with the text first, then the most common ones.
+        .sort(
+          (a, b) =>
+            Number(b.normalized.startsWith(text)) -
+              Number(a.normalized.startsWith(text)) ||
+            b.count - a.count ||
+            a.value.localeCompare(b.value),
+        )
+        .slice(0, MAX_PER_GROUP);
+      if (matches.length === 0) return;
+
+      const heading = document.createElement('li');
+      heading.className = 'search-suggestion-group';
+      heading.setAttribute('role', 'presentation');
+      heading.textContent = label;
+      dropdown.appendChild(heading);
+
+      matches.forEach((suggestion) => {
+        const item = document.createElement('li');
+        item.className = 'search-suggestion';
+        item.setAttribute('role', 'option');
+        item.dataset.index = String(options.length);
+
+        const valueEl = document.createElement('span');
+        valueEl.className = 'search-suggestion-value';
+        valueEl.textContent = suggestion.value;
+        item.appendChild(valueEl);
+
+        if (suggestion.count > 1) {
+          const countEl = document.createElement('span');
+          countEl.className = 'search-suggestion-count';
+          countEl.textContent = String(suggestion.count);
+          item.appendChild(countEl);
+        }
+
+        dropdown.appendChild(item);
+        options.push({ element: item, suggestion });
+      });
+    });
+
+    const isOpen = options.length > 0;
+    dropdown.classList.toggle('hidden', !isOpen);
+    searchInput.setAttribute('aria-expanded', String(isOpen));
+  };
+
+  searchInput.addEventListener('compositionstart', () => {
+    isComposing = true;
+  });
+  searchInput.addEventListener('compositionend', () => {
+    isComposing = false;
+    update();
+  });
+  searchInput.addEventListener('input', () => {
+    if (!isComposing) update();
+  });
+  searchInput.addEventListener('blur', close);
+
+  searchInput.addEventListener('keydown', (e) => {
+    // Keys confirming an IME candidate belong to the IME.
+    if (isComposing || e.isComposing || options.length === 0) return;
+
+    if (e.key === 'ArrowDown') {
+      setActive((activeIndex + 1) % options.length);
+    } else if (e.key === 'ArrowUp') {
+      setActive(activeIndex <= 0 ? options.length - 1 : activeIndex - 1);
+    } else if ((e.key === 'Enter' || e.key === 'Tab') && activeIndex >= 0) {
+      apply(options[activeIndex].suggestion);
+    } else if (e.key === 'Escape') {
+      close();
+    } else {
+      return;
+    }
+    e.preventDefault();
+  });
+
+  // mousedown rather than click, so the search box doesn't lose focus (and the
+  // list doesn't close) before the choice is applied.
+  dropdown.addEventListener('mousedown', (e) => {
+    const item = (e.target as HTMLElement).closest(
+      '.search-suggestion',
+    ) as HTMLElement | null;
+    if (!item?.dataset.index) return;
+    e.preventDefault();
+    apply(options[Number(item.dataset.index)].suggestion);
+  });
+}
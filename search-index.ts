@@ -0,0 +1,223 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { getFieldValues, rankStalls } from './search.ts';
+import type {
+  RankedStall,
+  SearchField,
+  SearchQuery,
+  SearchTerm,
+} from './search.ts';
+import { parseStallId } from './stall-id.ts';
+import { normalizeText } from './text-normalize.ts';
+import type { StallData } from './types.ts';
+
+/** The values of one field, and the stalls and values to look them up by. */
+interface FieldIndex {
+  /** Every distinct value, and the IDs of the stalls carrying it. */
+  stallIdsByValue: Map<string, string[]>;
+  /** For each character, the values containing it. */
+  valuesByChar: Map<string, string[]>;
+  /** For each pair of adjacent characters (bigram), the values containing it. */
+  valuesByBigram: Map<string, string[]>;
+}
+
+/**
+ * An inverted index of the stalls: for each field, the values containing each
+ * character and bigram. A term is only matched against the values sharing enough
+ * of its bigrams, instead of against every value.
+ */
+export interface SearchIndex {
+  fields: Map<SearchField, FieldIndex>;
+}
+
+const INDEXED_FIELDS: SearchField[] = ['id', 'row', 'title', 'user', 'tag'];
+
+// Built once per stall list; a refresh replaces the list and so the index.
+const indexes = new WeakMap<StallData[], SearchIndex>();
+
+/**
+ * Returns a value as its field's matcher compares it: table IDs lower-cased, free
+ * text normalised.
+ * @param field The field.
+ * @param value The value.
+ */
+function getComparedText(field: SearchField, value: string): string {
+  return field === 'id' ? value.toLowerCase() : normalizeText(value);
+}
+
+/**
+ * Adds a value to the posting list of a key.
+ * @param postings The posting lists.
+ * @param key The character or bigram.
+ * @param value The value containing it.
+ */
+function addPosting(
+  postings: Map<string, string[]>,
+  key: string,
+  value: string,
+) {
+  if (!postings.has(key)) postings.set(key, []);
+  postings.get(key)!.push(value);
+}
+
+/**
+ * Builds the index of one field.
+ * @param stalls The stalls to index.
+ * @param field The field.
+ */
+function buildFieldIndex(stalls: StallData[], field: SearchField): FieldIndex {
+  const stallIdsByValue = new Map<string, string[]>();
+  stalls.forEach((stall) => {
+    new Set(getFieldValues(stall, field)).forEach((value) => {
+      if (!stallIdsByValue.has(value)) stallIdsByValue.set(value, []);
+      stallIdsByValue.get(value)!.push(stall.id);
+    });
+  });
+
+  const valuesByChar = new Map<string, string[]>();
+  const valuesByBigram = new Map<string, string[]>();
+  stallIdsByValue.forEach((_, value) => {
+    const chars = Array.from(getComparedText(field, value));
+    new Set(chars).forEach((char) => addPosting(valuesByChar, char, value));
+    new Set(chars.slice(1).map((char, i) => chars[i] + char)).forEach(
+      (bigram) => addPosting(valuesByBigram, bigram, value),
+    );
+  });
+  return { stallIdsByValue, valuesByChar, valuesByBigram };
+}
+
+/**
+ * Builds the inverted index of a stall list.
+ * @param stalls The stalls to index.
+ */
+function buildSearchIndex(stalls: StallData[]): SearchIndex {
+  return {
+    fields: new Map(
+      INDEXED_FIELDS.map((field) => [field, buildFieldIndex(stalls, field)]),
+    ),
+  };
+}
+
+/**
+ * Returns the search index of a stall list, building it on first use.
+ * @param stalls The stalls, as produced by `processStalls`.
+ */
+export function getSearchIndex(stalls: StallData[]): SearchIndex {
+  let index = indexes.get(stalls);
+  if (!index) {
+    index = buildSearchIndex(stalls);
+    indexes.set(stalls, index);
+  }
+  return index;
+}
+
+/**
+ * Lists the values of a field that can match a term, for the term's matcher to
+ * check. Every value that matches is listed; some listed values may not match.
+ * @param fieldIndex The field's index.
+ * @param field The field.
+ * @param term The compiled term.
+ */
+function findCandidateValues(
+  fieldIndex: FieldIndex,
+  field: SearchField,
+  term: SearchTerm,
+): string[] {
+  // Rows are few, and can be searched by romanised name, e.g. `row:rabbit`.
+  if (field === 'row') return [...fieldIndex.stallIdsByValue.keys()];
+
+  const chars = Array.from(term.text);
+  // A full stall ID, e.g. "A01-03", also names tables not containing it as text.
+  const namedIds =
+    field === 'id' ? (parseStallId(term.text)?.memberIds ?? []) : [];
+  if (chars.length === 1) {
+    return [...(fieldIndex.valuesByChar.get(chars[0]) ?? []), ...namedIds];
+  }
+
+  // A value within k typos of the term still contains all but 2k of the term's
+  // n - 1 bigrams, since each typo breaks at most two of them (the q-gram lemma).
+  const maxDistance = field === 'id' ? 0 : term.maxDistance;
+  const minSharedBigrams = chars.length - 1 - 2 * maxDistance;
+  if (minSharedBigrams <= 0) return [...fieldIndex.stallIdsByValue.keys()];
+
+  const sharedBigramCounts = new Map<string, number>();
+  chars.slice(1).forEach((char, i) => {
+    fieldIndex.valuesByBigram.get(chars[i] + char)?.forEach((value) => {
+      sharedBigramCounts.set(value, (sharedBigramCounts.get(value) ?? 0) + 1);
+    });
+  });
+  const values = [...sharedBigramCounts]
+    .filter(([, count]) => count >= minSharedBigrams)
+    .map(([value]) => value);
+  return [...values, ...namedIds];
+}
+
+/**
+ * Looks up the stalls a term matches, testing only the values that can match it.
+ * @param index The search index.
+ * @param term The compiled term.
+ * @returns The IDs of the matching stalls.
+ */
+function findTermStallIds(index: SearchIndex, term: SearchTerm): Set<string> {
+  const stallIds = new Set<string>();
+  term.fields.forEach((field) => {
+    const fieldIndex = index.fields.get(field);
+    if (!fieldIndex) return;
+    findCandidateValues(fieldIndex, field, term).forEach((value) => {
+      if (term.matchValue(field, value) !== null) {
+        fieldIndex.stallIdsByValue
+          .get(value)
+          ?.forEach((id) => stallIds.add(id));
+      }
+    });
+  });
+  return stallIds;
+}
+
+/**
+ * Narrows a query down to the stalls that can match it: those matching every
+ * positive term of some group. Exclusions are left to the full match.
+ * @param index The search index.
+ * @param query The compiled query.
+ * @returns The candidate stall IDs, or null if every stall is a candidate (a group
+ *   has only exclusions).
+ */
+function findCandidateIds(
+  index: SearchIndex,
+  query: SearchQuery,
+): Set<string> | null {
+  const candidates = new Set<string>();
+  for (const group of query.groups) {
+    const positiveTerms = group.filter((term) => !term.isNegated);
+    if (positiveTerms.length === 0) return null;
+
+    let groupIds = findTermStallIds(index, positiveTerms[0]);
+    positiveTerms.slice(1).forEach((term) => {
+      const termIds = findTermStallIds(index, term);
+      groupIds = new Set([...groupIds].filter((id) => termIds.has(id)));
+    });
+    groupIds.forEach((id) => candidates.add(id));
+  }
+  return candidates;
+}
+
+/**
+ * Ranks the stalls matching a query like `rankStalls`, using the stall list's
+ * search index to skip stalls that can't match.
+ * @param query The compiled query.
+ * @param stalls The stalls to search.
+ */
+export function searchStalls(
+  query: SearchQuery,
+  stalls: StallData[],
+): RankedStall[] {
+  if (query.isEmpty) return rankStalls(query, stalls);
+  const candidateIds = findCandidateIds(getSearchIndex(stalls), query);
+  const candidates = candidateIds
+    ? stalls.filter((stall) => candidateIds.has(stall.id))
+    : stalls;
+  return rankStalls(query, candidates);
+}
@@ -0,0 +1,176 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { formatStallLabel } from './stall-id.ts';
+import type { RankedStall } from './search.ts';
+
+/** Callbacks through which the results panel talks to the map. */
+export interface SearchResultsHandlers {
+  /** Called when a result is chosen, by click or with Enter. */
+  onSelect: (stallId: string) => void;
+  /** Called when the hovered or keyboard-active result changes; null when none is. */
+  onHighlight: (stallId: string | null) => void;
+}
+
+/** The public API of the search results panel. */
+export interface SearchResultsController {
+  /** Shows the matching stalls, or hides the panel (null) when nothing is searched. */
+  render: (results: RankedStall[] | null) => void;
+}
+
+// Long result lists are cut off; the count still reports every match.
+const MAX_RESULTS = 50;
+
+/**
+ * Builds the list entry for one result: the stall label and title, its promo
+ * users, and the tags that matched the query.
+ * @param result The ranked stall.
+ * @param index The entry's position, used for its element ID.
+ */
+function createResultItem(result: RankedStall, index: number): HTMLLIElement {
+  const { stall, reasons } = result;
+  const item = document.createElement('li');
+  item.id = `search-result-${index}`;
+  item.className = 'search-result-item';
+  item.setAttribute('role', 'option');
+  item.dataset.stallId = stall.id;
+
+  const id = document.createElement('span');
+  id.className = 'search-result-id';
+  id.textContent = formatStallLabel(stall);
+
+  const title = document.createElement('span');
+  title.className = 'search-result-title';
+  title.textContent = stall.stallTitle;
+
+  item.append(id, title);
+
+  const users = [...new Set(stall.promoData.map((p) => p.promoUser))].filter(
+    Boolean,
+  );
+  if (users.length > 0) {
+    const usersEl = document.createElement('span');
+    usersEl.className = 'search-result-users';
+    usersEl.textContent = users.join('、');
+    item.appendChild(usersEl);
+  }
+
+  const matchedTags = [
+    ...new Set(reasons.filter((r) => r.field === 'tag').map((r) => r.value)),
+  ];
+  if (matchedTags.length > 0) {
+    const tagsEl = document.createElement('span');
+    tagsEl.className = 'search-result-tags';
+    matchedTags.forEach((tag) => {
+      const chip = document.createElement('span');
+      chip.className = 'search-result-tag';
+      chip.textContent = tag;
+      tagsEl.appendChild(chip);
+    });
+    item.appendChild(tagsEl);
+  }
+
+  return item;
+}
+
+/**
+ * Creates the search results panel below the search box. It lists the matching
+ * stalls best match first, with a total count. While the search box has focus,
+ * ArrowUp/ArrowDown move through the list and Enter opens the active stall.
+ * @param panel The panel element, hidden while nothing is searched.
+ * @param countEl The element showing the number of matches.
+ * @param list The list element the results are rendered into.
+ * @param searchInput The search box, which receives the keyboard navigation.
+ * @param handlers Callbacks for choosing and highlighting results.
+ * @returns A controller to render results with.
+ */
+export function createSearchResults(
+  panel: HTMLElement,
+  countEl: HTMLElement,
+  list: HTMLElement,
+  searchInput: HTMLInputElement,
+  handlers: SearchResultsHandlers,
+): SearchResultsController {
+  let items: HTMLElement[] = [];
+  let activeIndex = -1;
+
+  /**
+   * Marks a result as the keyboard-active one and scrolls it into view.
+   * @param index The result's index, or -1 for none.
+   */
+  const setActive = (index: number) => {
+    items[activeIndex]?.classList.remove('is-active');
+    items[activeIndex]?.setAttribute('aria-selected', 'false');
+    activeIndex = index;
+
+    const item = items[activeIndex];
+    if (item) {
+      item.classList.add('is-active');
+      item.setAttribute('aria-selected', 'true');
+      item.scrollIntoView({ block: 'nearest' });
+      searchInput.setAttribute('aria-activedescendant', item.id);
+    } else {
+      searchInput.removeAttribute('aria-activedescendant');
+    }
+    handlers.onHighlight(item?.dataset.stallId ?? null);
+  };
+
+  const render = (results: RankedStall[] | null) => {
+    setActive(-1);
+    panel.classList.toggle('hidden', !results);
+    if (!results) {
+      list.replaceChildren();
+      items = [];
+      return;
+    }
+
+    countEl.textContent =
+      results.length === 0
+        ? '沒有符合的攤位'
+        : results.length > MAX_RESULTS
+          ? `找到 ${results.length} 個攤位（顯示前 ${MAX_RESULTS} 個）`
+          : `找到 ${results.length} 個攤位`;
+
+    items = results.slice(0, MAX_RESULTS).map(createResultItem);
+    list.replaceChildren(...items);
+  };
+
+  searchInput.addEventListener('keydown', (e) => {
+    // Skip keys already handled (by the autocomplete) or confirming an IME candidate.
+    if (items.length === 0 || e.defaultPrevented || e.isComposing) return;
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setActive(Math.min(activeIndex + 1, items.length - 1));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setActive(Math.max(activeIndex - 1, 0));
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      const stallId = items[Math.max(activeIndex, 0)].dataset.stallId;
+      if (stallId) handlers.onSelect(stallId);
+    }
+  });
+
+  list.addEventListener('click', (e) => {
+    const item = (e.target as HTMLElement).closest(
+      '.search-result-item',
+    ) as HTMLElement | null;
+    if (item?.dataset.stallId) handlers.onSelect(item.dataset.stallId);
+  });
+
+  list.addEventListener('mouseover', (e) => {
+    const item = (e.target as HTMLElement).closest(
+      '.search-result-item',
+    ) as HTMLElement | null;
+    if (item?.dataset.stallId) handlers.onHighlight(item.dataset.stallId);
+  });
+
+  // Leaving the list hands the highlight back to the keyboard-active result.
+  list.addEventListener('mouseleave', () => {
+    handlers.onHighlight(items[activeIndex]?.dataset.stallId ?? null);
+  });
+
+  return { render };
+}
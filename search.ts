@@ -0,0 +1,354 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { createTableIdMatcher, romanisedRowIds } from './stall-id.ts';
+import { normalizeText } from './text-normalize.ts';
+import type { StallData } from './types.ts';
+
+/** The stall fields a search term can be restricted to with a `field:` qualifier. */
+export type SearchField = 'id' | 'row' | 'title' | 'user' | 'tag';
+
+/** Why a stall matched: which field matched which term, and the matching value. */
+export interface MatchReason {
+  field: SearchField;
+  /** The stall's value that matched, e.g. the promo user's name. */
+  value: string;
+  /** The search term that matched it. */
+  term: string;
+  /** The edit distance between the term and the value; 0 for an exact match. */
+  distance: number;
+}
+
+/** A single compiled term of a query. */
+export interface SearchTerm {
+  /** The field the term is restricted to, or null to search all fields. */
+  field: SearchField | null;
+  /** The normalised term text. */
+  text: string;
+  /** True for `-term`: the stall must not match. */
+  isNegated: boolean;
+  /** The fields the term is matched against. */
+  fields: SearchField[];
+  /** The number of typos tolerated in free-text fields; 0 for exclusions. */
+  maxDistance: number;
+  /**
+   * Matches a single field value, e.g. one tag.
+   * @returns The edit distance, or null if the value doesn't match.
+   */
+  matchValue: (field: SearchField, value: string) => number | null;
+  /** Returns the reasons a stall matches the term, or an empty array. */
+  match: (stall: StallData) => MatchReason[];
+}
+
+/**
+ * A compiled search query, in disjunctive normal form: a stall matches if it
+ * matches every term of at least one group.
+ */
+export interface SearchQuery {
+  /** The query as typed. */
+  source: string;
+  /** The OR-ed groups of AND-ed terms. */
+  groups: SearchTerm[][];
+  /** True if the query has no terms, i.e. nothing is being searched. */
+  isEmpty: boolean;
+}
+
+const SEARCH_FIELDS: SearchField[] = ['id', 'row', 'title', 'user', 'tag'];
+// Fields searched by an unqualified term.
+const DEFAULT_FIELDS: SearchField[] = ['id', 'title', 'user', 'tag'];
+
+// A token: an optional `-`, an optional `field:`, then a quoted phrase or a bare word.
+const TOKEN_PATTERN = /(-?)(?:([a-z]+):)?(?:"([^"]*)"?|(\S+))/gi;
+
+/** A stall matching a query, with its ranking score. */
+export interface RankedStall {
+  stall: StallData;
+  reasons: MatchReason[];
+  /** The summed edit distance of the matched terms; lower is better. */
+  score: number;
+}
+
+// Normalised field values, cached since the same values are matched on every keystroke.
+const normalizedValues = new Map<string, string>();
+
+/**
+ * Normalises a stall field value, using the cache.
+ * @param value The value to normalise.
+ */
+function normalizeValue(value: string): string {
+  let normalized = normalizedValues.get(value);
+  if (normalized === undefined) {
+    normalized = normalizeText(value);
+    normalizedValues.set(value, normalized);
+  }
+  return normalized;
+}
+
+/**
+ * The number of typos tolerated in a term: none below four characters, and more as
+ * the term gets longer. Terms are matched against substrings, so one typo in a
+ * three-character term would already match any value sharing two characters with it.
+ * @param term The term's characters.
+ */
+function getMaxDistance(term: string[]): number {
+  if (term.length < 4) return 0;
+  return term.length < 8 ? 1 : 2;
+}
+
+/**
+ * Finds the smallest edit distance between a term and any substring of a value
+ * (Sellers' algorithm), comparing whole characters so CJK text counts one edit
+ * per character.
+ * @param term The term's characters.
+ * @param value The value's characters.
+ * @returns The distance.
+ */
+function getSubstringDistance(term: string[], value: string[]): number {
+  // column[i] is the distance between term[0..i) and the best substring ending here.
+  let column = term.map((_, i) => i + 1);
+  let best = column[term.length - 1];
+  value.forEach((valueChar) => {
+    const next: number[] = [];
+    term.forEach((termChar, i) => {
+      const diagonal = i === 0 ? 0 : column[i - 1];
+      const up = i === 0 ? 1 : next[i - 1] + 1;
+      next.push(
+        Math.min(
+          diagonal + (termChar === valueChar ? 0 : 1),
+          column[i] + 1,
+          up,
+        ),
+      );
+    });
+    column = next;
+    best = Math.min(best, column[term.length - 1]);
+  });
+  return best;
+}
+
+/**
+ * Lists the values of a stall field that can be matched against.
+ * @param stall The stall.
+ * @param field The field.
+ */
+export function getFieldValues(stall: StallData, field: SearchField): string[] {
+  switch (field) {
+    case 'id':
+      return stall.memberIds;
+    case 'row':
+      return [stall.id.substring(0, 1)];
+    case 'title':
+      return [stall.stallTitle];
+    case 'user':
+      return stall.promoData.map((promo) => promo.promoUser);
+    case 'tag':
+      return stall.promoTags;
+  }
+}
+
+/**
+ * Compiles a term into a matcher for the values of one field.
+ * @param field The field to match.
+ * @param text The normalised term text.
+ * @param maxDistance The number of typos tolerated in free-text fields.
+ * @returns A function returning a value's edit distance, or null if it doesn't match.
+ */
+function compileValueMatcher(
+  field: SearchField,
+  text: string,
+  maxDistance: number,
+): (value: string) => number | null {
+  if (field === 'id') {
+    const matchesId = createTableIdMatcher(text);
+    return (value) => (matchesId(value) ? 0 : null);
+  }
+  if (field === 'row') {
+    // Rows can be given by character or romanised name, e.g. `row:兔` or `row:rabbit`.
+    const romanised = Object.entries(romanisedRowIds).find(
+      ([name]) => normalizeText(name) === text,
+    );
+    const rowId = normalizeText(romanised ? romanised[1] : text);
+    return (value) => (normalizeValue(value) === rowId ? 0 : null);
+  }
+
+  // Free-text fields tolerate typos, e.g. "illustation" still finds "illustration".
+  const termChars = Array.from(text);
+  return (value) => {
+    const normalized = normalizeValue(value);
+    if (normalized.includes(text)) return 0;
+    if (maxDistance === 0) return null;
+    const distance = getSubstringDistance(termChars, Array.from(normalized));
+    return distance <= maxDistance ? distance : null;
+  };
+}
+
+/**
+ * Compiles a single term.
+ * @param field The qualifier, or null for an unqualified term.
+ * @param text The normalised term text.
+ * @param isNegated Whether the term is negated.
+ */
+function compileTerm(
+  field: SearchField | null,
+  text: string,
+  isNegated: boolean,
+): SearchTerm {
+  let fields = field ? [field] : DEFAULT_FIELDS;
+  // A bare romanised row name, e.g. "rabbit", also matches the row.
+  const isRowName = Object.keys(romanisedRowIds).some(
+    (name) => normalizeText(name) === text,
+  );
+  if (!field && isRowName) fields = [...fields, 'row'];
+
+  // Exclusions are exact, so `-term` never hides a stall that merely looks similar.
+  const maxDistance = isNegated ? 0 : getMaxDistance(Array.from(text));
+  const matchers = new Map(
+    fields.map((f) => [f, compileValueMatcher(f, text, maxDistance)]),
+  );
+  /** Matches a value of one of the term's fields. */
+  const matchValue = (f: SearchField, value: string) =>
+    matchers.get(f)?.(value) ?? null;
+
+  return {
+    field,
+    text,
+    isNegated,
+    fields,
+    maxDistance,
+    matchValue,
+    match: (stall) =>
+      fields.flatMap((f): MatchReason[] => {
+        // A stall matches by ID once, however many of its tables match.
+        if (f === 'id') {
+          return stall.memberIds.some((id) => matchValue(f, id) !== null)
+            ? [{ field: f, value: stall.id, term: text, distance: 0 }]
+            : [];
+        }
+        return getFieldValues(stall, f).flatMap((value) => {
+          const distance = matchValue(f, value);
+          return distance === null
+            ? []
+            : [{ field: f, value, term: text, distance }];
+        });
+      }),
+  };
+}
+
+/**
+ * Parses and compiles a search query. Supported syntax:
+ * - `word` matches the stall ID, title, promo users or tags
+ * - `"two words"` matches a phrase
+ * - `tag:`, `user:`, `title:`, `id:` and `row:` restrict a term to one field
+ * - `-term` excludes stalls matching the term
+ * - `OR` (or `|`) separates alternatives; terms are otherwise AND-ed
+ *
+ * Terms and values are normalised (see {@link normalizeText}), so Simplified and
+ * Traditional Chinese, full- and half-width forms and kana variants match each other.
+ * @param input The query as typed.
+ * @returns The compiled query.
+ */
+export function parseQuery(input: string): SearchQuery {
+  const groups: SearchTerm[][] = [[]];
+
+  for (const token of input.matchAll(TOKEN_PATTERN)) {
+    const [raw, minus, qualifier, phrase, word] = token;
+    if (raw === 'OR' || raw === '|') {
+      groups.push([]);
+      continue;
+    }
+
+    const field = SEARCH_FIELDS.find((f) => f === qualifier?.toLowerCase());
+    // An unknown qualifier (e.g. "http:") is part of the word.
+    let text = phrase ?? word ?? '';
+    if (qualifier && !field) text = `${qualifier}:${text}`;
+    text = normalizeText(text);
+    if (!text) continue;
+
+    groups[groups.length - 1].push(compileTerm(field ?? null, text, !!minus));
+  }
+
+  const nonEmptyGroups = groups.filter((group) => group.length > 0);
+  return {
+    source: input,
+    groups: nonEmptyGroups,
+    isEmpty: nonEmptyGroups.length === 0,
+  };
+}
+
+/**
+ * Matches a stall against a compiled query.
+ * @param query The compiled query.
+ * @param stall The stall to test.
+ * @returns The reasons the stall matched (from the first matching group),
+ *   or null if it doesn't match. An empty query matches every stall with no reasons.
+ */
+export function matchStall(
+  query: SearchQuery,
+  stall: StallData,
+): MatchReason[] | null {
+  if (query.isEmpty) return [];
+
+  for (const group of query.groups) {
+    const reasons: MatchReason[] = [];
+    const isGroupMatch = group.every((term) => {
+      const termReasons = term.match(stall);
+      if (term.isNegated) return termReasons.length === 0;
+      reasons.push(...termReasons);
+      return termReasons.length > 0;
+    });
+    if (isGroupMatch) return reasons;
+  }
+  return null;
+}
+
+/**
+ * Scores a match by summing, over the matched terms, the distance of each term's
+ * closest value.
+ * @param reasons The reasons the stall matched.
+ */
+function scoreReasons(reasons: MatchReason[]): number {
+  const distanceByTerm = new Map<string, number>();
+  reasons.forEach(({ term, distance }) => {
+    distanceByTerm.set(
+      term,
+      Math.min(distance, distanceByTerm.get(term) ?? Infinity),
+    );
+  });
+  let score = 0;
+  distanceByTerm.forEach((distance) => (score += distance));
+  return score;
+}
+
+/**
+ * Returns the stalls matching a compiled query, best match first: exact matches
+ * come before fuzzy ones, and ties keep their original order. An empty query
+ * returns every stall with a score of 0.
+ * @param query The compiled query.
+ * @param stalls The stalls to rank.
+ */
+export function rankStalls(
+  query: SearchQuery,
+  stalls: StallData[],
+): RankedStall[] {
+  const ranked: RankedStall[] = [];
+  stalls.forEach((stall) => {
+    const reasons = matchStall(query, stall);
+    if (reasons) ranked.push({ stall, reasons, score: scoreReasons(reasons) });
+  });
+  return ranked.sort((a, b) => a.score - b.score);
+}
+
+/**
+ * Returns the stalls matching a compiled query. An empty query returns every stall.
+ * @param query The compiled query.
+ * @param stalls The stalls to filter.
+ */
+export function filterStalls(
+  query: SearchQuery,
+  stalls: StallData[],
+): StallData[] {
+  if (query.isEmpty) return stalls;
+  return stalls.filter((stall) => matchStall(query, stall) !== null);
+}
@@ -0,0 +1,103 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/** A stored copy of the last successfully loaded stall rows for one data source. */
+export interface StallDataSnapshot {
+  /** The key of the data source the rows came from. */
+  key: string;
+  /** The raw rows, exactly as the data source returned them. */
+  rows: Record<string, string>[];
+  /** When the rows were loaded, in milliseconds since the epoch. */
+  savedAt: number;
+}
+
+const DB_NAME = 'nice-map';
+const DB_VERSION = 1;
+const STORE_NAME = 'stall-snapshots';
+
+/**
+ * Opens (and on first use, creates) the snapshot database.
+ * @returns A promise that resolves to the open database.
+ */
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    if (!('indexedDB' in window)) {
+      reject(new Error('IndexedDB is not available.'));
+      return;
+    }
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE_NAME, { keyPath: 'key' });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Stores the rows of a successful load, replacing any older snapshot for the same source.
+ * Failures are logged and otherwise ignored; the cache is a best-effort fallback.
+ * @param key The key of the data source.
+ * @param rows The raw rows to store.
+ */
+export async function saveSnapshot(
+  key: string,
+  rows: Record<string, string>[],
+): Promise<void> {
+  try {
+    const db = await openDatabase();
+    await new Promise<void>((resolve, reject) => {
+      const tx = db.transaction(STORE_NAME, 'readwrite');
+      const snapshot: StallDataSnapshot = { key, rows, savedAt: Date.now() };
+      tx.objectStore(STORE_NAME).put(snapshot);
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+    });
+    db.close();
+  } catch (error) {
+    console.warn('Could not save offline snapshot of stall data:', error);
+  }
+}
+
+/**
+ * Reads the last stored snapshot for a data source.
+ * @param key The key of the data source.
+ * @returns A promise that resolves to the snapshot, or null if there is none.
+ */
+export async function loadSnapshot(
+  key: string,
+): Promise<StallDataSnapshot | null> {
+  try {
+    const db = await openDatabase();
+    const snapshot = await new Promise<StallDataSnapshot | undefined>(
+      (resolve, reject) => {
+        const request = db
+          .transaction(STORE_NAME, 'readonly')
+          .objectStore(STORE_NAME)
+          .get(key);
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      },
+    );
+    db.close();
+    return snapshot ?? null;
+  } catch (error) {
+    console.warn('Could not read offline snapshot of stall data:', error);
+    return null;
+  }
+}
+
+/**
+ * Formats a snapshot time for display, e.g. "14:05", or "8/16 14:05" if not from today.
+ * @param savedAt The snapshot time in milliseconds since the epoch.
+ * @returns The formatted time.
+ */
+export function formatSnapshotTime(savedAt: number): string {
+  const date = new Date(savedAt);
+  const pad = (n: number) => n.toString().padStart(2, '0');
+  const time = `${pad(date.getHours())}:${pad(date.getMinutes())}`;
+  const isToday = date.toDateString() === new Date().toDateString();
+  return isToday ? time : `${date.getMonth() + 1}/${date.getDate()} ${time}`;
+}
@@ -0,0 +1,187 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { StallData } from './types.ts';
+
+/** A stall ID normalised to its row, its primary table and every table it covers. */
+export interface ParsedStallId {
+  /** The row ID, e.g. "F" or "兔". */
+  rowId: string;
+  /** The ID of the joint stall's first table, e.g. "F38". */
+  primaryId: string;
+  /** The IDs of every table the stall covers, in number order, e.g. ["F38", "F39", "F40"]. */
+  memberIds: string[];
+  /** The numbers of every table the stall covers, in the same order as `memberIds`. */
+  nums: number[];
+}
+
+/** The romanised zodiac row names used in asset file names, e.g. `Rabbit21.jpg`. */
+export const romanisedRowIds: Record<string, string> = {
+  Rat: '鼠',
+  Ox: '牛',
+  Tiger: '虎',
+  Rabbit: '兔',
+  Dragon: '龍',
+  Snake: '蛇',
+  Horse: '馬',
+  Goat: '羊',
+  Monkey: '猴',
+  Rooster: '雞',
+  Dog: '狗',
+};
+
+const romanisedRowsByLowerCase = new Map(
+  Object.entries(romanisedRowIds).map(([name, id]) => [name.toLowerCase(), id]),
+);
+
+// A table ID: an optional row (a romanised zodiac name, a letter or a single CJK
+// character) followed by its number. Longer names come first so "Rat" wins over "R".
+const TABLE_PATTERN = new RegExp(
+  `^(?:(${Object.keys(romanisedRowIds)
+    .sort((a, b) => b.length - a.length)
+    .join('|')}|[A-Za-z]|[^\\x00-\\x7F\\s\\d\\-~～–、，])\\s*)?(\\d{1,3})`,
+  'i',
+);
+const SEPARATOR_PATTERN = /^[\s,，、/+&]+/;
+const RANGE_PATTERN = /^\s*[-~～–]\s*/;
+
+// Guard against typos like "F3-40" expanding into a huge member list.
+const MAX_MEMBERS = 12;
+
+/**
+ * Formats the ID of a single table, e.g. "A01" or "雞05".
+ * @param rowId The row ID.
+ * @param num The table number.
+ */
+export function formatStallId(rowId: string, num: number): string {
+  return `${rowId}${String(num).padStart(2, '0')}`;
+}
+
+/**
+ * Normalises a row name to its row ID: romanised zodiac names become their
+ * character and letters are upper-cased.
+ * @param name The row name as written.
+ */
+function normaliseRowId(name: string): string {
+  return romanisedRowsByLowerCase.get(name.toLowerCase()) ?? name.toUpperCase();
+}
+
+/**
+ * Parses a stall ID in any of the notations used by the sheet and the asset file
+ * names: single IDs ("A01"), concatenated IDs ("K61K62", "F49 F50"), ranges
+ * ("F38-40", "F38-F40") and romanised zodiac rows ("Rabbit21Rabbit22").
+ * All tables of a joint stall must be in the same row.
+ * @param input The ID to parse.
+ * @returns The normalised ID, or null if the input isn't a valid stall ID.
+ */
+export function parseStallId(input: string): ParsedStallId | null {
+  let rest = input.trim();
+  let rowId: string | null = null;
+  let isRange = false;
+  const nums: number[] = [];
+
+  while (rest) {
+    const separator = rest.match(SEPARATOR_PATTERN);
+    if (separator) {
+      rest = rest.slice(separator[0].length);
+      continue;
+    }
+    const range = rest.match(RANGE_PATTERN);
+    if (range) {
+      if (isRange || nums.length === 0) return null;
+      isRange = true;
+      rest = rest.slice(range[0].length);
+      continue;
+    }
+
+    const table = rest.match(TABLE_PATTERN);
+    if (!table) return null;
+    const tableRowId: string | null = table[1]
+      ? normaliseRowId(table[1])
+      : rowId;
+    if (!tableRowId || (rowId && tableRowId !== rowId)) return null;
+    rowId = tableRowId;
+
+    const num = parseInt(table[2], 10);
+    if (isRange) {
+      const from = nums[nums.length - 1];
+      if (num <= from || num - from >= MAX_MEMBERS) return null;
+      for (let n = from + 1; n <= num; n++) nums.push(n);
+      isRange = false;
+    } else {
+      nums.push(num);
+    }
+    rest = rest.slice(table[0].length);
+  }
+
+  if (!rowId || nums.length === 0 || isRange) return null;
+
+  const uniqueNums = [...new Set(nums)].sort((a, b) => a - b);
+  if (uniqueNums.length > MAX_MEMBERS) return null;
+  const memberIds = uniqueNums.map((num) => formatStallId(rowId!, num));
+  return { rowId, primaryId: memberIds[0], memberIds, nums: uniqueNums };
+}
+
+/**
+ * Lists the tables a stall covers. A joint stall lists its tables in its ID;
+ * otherwise they follow from its number and how many tables it occupies.
+ * @param parsedId The parsed stall ID, if it could be parsed.
+ * @param rowId The stall's row ID.
+ * @param num The stall's number.
+ * @param stallCnt How many tables the stall occupies.
+ * @returns The member IDs, starting with the stall's primary table.
+ */
+export function resolveMemberIds(
+  parsedId: ParsedStallId | null,
+  rowId: string,
+  num: number,
+  stallCnt: number,
+): string[] {
+  if (parsedId && parsedId.memberIds.length > 1) return parsedId.memberIds;
+  return Array.from({ length: stallCnt }, (_, i) =>
+    formatStallId(rowId, num + i),
+  );
+}
+
+/**
+ * Returns the numbers of every table a stall covers.
+ * @param stall The stall.
+ */
+export function getMemberNums(stall: StallData): number[] {
+  // Member IDs are normalised, so the row ID is always the first character.
+  return stall.memberIds.map((id) => parseInt(id.substring(1), 10));
+}
+
+/**
+ * Formats a stall's ID for display, showing every table of a joint stall,
+ * e.g. "A01", "F38-40" or "K61、K63".
+ * @param stall The stall.
+ */
+export function formatStallLabel(stall: StallData): string {
+  const { memberIds } = stall;
+  if (memberIds.length <= 1) return stall.id;
+
+  const nums = getMemberNums(stall);
+  const isContiguous = nums.every(
+    (num, i) => i === 0 || num === nums[i - 1] + 1,
+  );
+  return isContiguous
+    ? `${memberIds[0]}-${memberIds[memberIds.length - 1].substring(1)}`
+    : memberIds.join('、');
+}
+
+/**
+ * Creates a predicate matching table IDs against a search term. An ID matches if it
+ * contains the term, or if the term is itself a stall ID (in any notation) naming
+ * that table.
+ * @param searchTerm The lower-cased, trimmed search term.
+ * @returns A function testing a single table ID against the term.
+ */
+export function createTableIdMatcher(
+  searchTerm: string,
+): (id: string) => boolean {
+  const queryIds = new Set(parseStallId(searchTerm)?.memberIds ?? []);
+  return (id) => id.toLowerCase().includes(searchTerm) || queryIds.has(id);
+}
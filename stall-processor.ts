@@ -3,7 +3,10 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-import { locateStalls } from './official-data.ts';
+import { locateStalls } from './event-config.ts';
+import { resolveStallImage } from './asset-resolver.ts';
+import { computeStallCoords } from './layout-engine.ts';
+import { parseStallId, resolveMemberIds } from './stall-id.ts';
 import type { StallData, PromoLink, PromoStall } from './types.ts';
 import DOMPurify from 'dompurify';
 
@@ -85,18 +88,26 @@ export function processStalls(rawData: Record<string, string>[]): StallData[] {
   // Use a Map to group all data by stall ID. This allows us to merge multiple rows
   // (e.g., one for official data, multiple for promo data) into a single object.
   const stallsMap = new Map<string, StallData>();
+  // Every table ID of a joint stall, so rows using a member's ID (e.g. "K62") join it.
+  const stallsByMemberId = new Map<string, StallData>();
 
   rawData.forEach((rawStall) => {
-    const id = rawStall.id || rawStall.stallId;
-    if (!id) return; // Skip rows without an ID, as they can't be processed.
+    const rawId = rawStall.id || rawStall.stallId;
+    if (!rawId) return; // Skip rows without an ID, as they can't be processed.
 
-    let stallEntry = stallsMap.get(id);
+    // Normalise notations like "K61K62", "F38-40" or "Rabbit21" to the primary ID.
+    const parsedId = parseStallId(rawId);
+    const id = parsedId?.primaryId ?? rawId;
+
+    let stallEntry = stallsMap.get(id) ?? stallsByMemberId.get(id);
 
     // If this is the first time we see this stall ID, create the base StallData object.
     if (!stallEntry) {
       const line = id.substring(0, 1); // e.g., 'A' from 'A01'
-      const num = parseInt(rawStall.num, 10);
-      const stallCnt = parseInt(rawStall.stallCnt, 10) || 1; // How many table spaces the stall occupies.
+      const num = parseInt(rawStall.num, 10) || parsedId?.nums[0] || NaN;
+      // How many table spaces the stall occupies.
+      const stallCnt =
+        parseInt(rawStall.stallCnt, 10) || parsedId?.memberIds.length || 1;
       const locateStall = locateStallMap.get(line); // Get the template coordinates for this row/column.
 
       // If we can't find a template or the number is invalid, we can't calculate a position.
@@ -108,135 +119,34 @@ export function processStalls(rawData: Record<string, string>[]): StallData[] {
       }
 
       // --- Coordinate Calculation ---
-      const coordsTemplate = locateStall.coords;
-      let myCoords: NonNullable<StallData['coords']>;
-      let myNumericCoords: NonNullable<StallData['numericCoords']>;
-
-      // Most stalls are in horizontal rows, calculate position from right to left.
-      if (
-        line !== '狗' &&
-        line !== '雞' &&
-        line !== '猴' &&
-        line !== '特' &&
-        line !== '商'
-      ) {
-        const numInBlock = num > 36 ? 72 - num : num;
-        // There are visual gaps in the numbering on the map, account for them.
-        let gapSize = 0;
-        let top = coordsTemplate.top;
-        let left = coordsTemplate.left;
-
-        if (num > 24 && num <= 48) {
-          gapSize = 1.75;
-        } else if (num <= 12 || num >= 61) {
-          gapSize = 0;
-        } else {
-          gapSize = 0.9;
-        }
-        if (num > 36) {
-          top = top - coordsTemplate.height - 0.25;
-          left =
-            coordsTemplate.left -
-            (numInBlock % 72) * coordsTemplate.width -
-            gapSize;
-        } else {
-          left =
-            coordsTemplate.left -
-            (numInBlock - 1) * coordsTemplate.width -
-            gapSize;
-          if (stallCnt > 1) {
-            left -= (stallCnt - 1) * coordsTemplate.width;
-          }
-        }
-
-        const finalLeft = parseFloat(left.toFixed(2));
-        const finalWidth = coordsTemplate.width * stallCnt;
-
-        myCoords = {
-          top: `${top}%`,
-          left: `${finalLeft}%`,
-          width: `${finalWidth}%`,
-          height: `${coordsTemplate.height}%`,
-        };
-
-        myNumericCoords = {
-          top: top,
-          left: finalLeft,
-          width: finalWidth,
-          height: coordsTemplate.height,
-        };
-      } else {
-        // Handle the few vertical columns.
-        let tempNum = num;
-        let gapSize = 0;
-        if (line === '狗') {
-          if (num >= 4 && num < 16) {
-            tempNum = 3;
-            gapSize = 0.8;
-          } else if (num >= 16) {
-            tempNum = num - 12;
-            gapSize = 0.4;
-          }
-        } else if (line === '雞') {
-          if (num >= 4 && num < 21) {
-            tempNum = 3;
-            gapSize = 0.8;
-          } else if (num >= 21) {
-            tempNum = num - 17;
-            gapSize = 0.4;
-          }
-        } else if (line === '猴') {
-          if (num >= 4 && num < 23) {
-            tempNum = 3;
-            gapSize = 0.8;
-          } else if (num >= 23) {
-            tempNum = num - 19;
-            gapSize = 0.5;
-          }
-        } else {
-        }
-        let top =
-          coordsTemplate.top - coordsTemplate.height * (tempNum - 1) - gapSize;
-        if (stallCnt > 1) {
-          top -= (stallCnt - 1) * coordsTemplate.height;
-        }
+      const { coords: myCoords, numericCoords: myNumericCoords } =
+        computeStallCoords(locateStall, num, stallCnt);
 
-        const finalTop = parseFloat(top.toFixed(2));
-        const finalHeight = coordsTemplate.height * stallCnt;
-
-        myCoords = {
-          top: `${finalTop}%`,
-          left: `${coordsTemplate.left}%`,
-          width: `${coordsTemplate.width}%`,
-          height: `${finalHeight}%`,
-        };
-
-        myNumericCoords = {
-          top: finalTop,
-          left: coordsTemplate.left,
-          width: coordsTemplate.width,
-          height: finalHeight,
-        };
-      }
+      const memberIds = resolveMemberIds(parsedId, line, num, stallCnt);
+      memberIds[0] = id;
 
       // Create the new entry in the map.
-      let stallImg = rawStall.stallImg || undefined;
-      if (stallImg && stallImg.startsWith('assets/2025/')) {
-        stallImg = `https://cdn.jsdelivr.net/gh/v4724/nice-0816@d24cd07/${stallImg}`;
-      }
+      // A blank image column is filled in from the event's asset manifest.
+      const stallImg = resolveStallImage(rawStall.stallImg, memberIds);
+
       stallEntry = {
         id: id,
         num: num,
         stallCnt: stallCnt,
+        memberIds: memberIds,
         coords: myCoords,
         numericCoords: myNumericCoords,
         stallTitle: rawStall.stallTitle || 'N/A',
-        stallImg: stallImg,
+        stallImg: stallImg?.src,
+        stallImgFallback: stallImg?.fallbackSrc,
         stallLink: rawStall.stallLink || undefined,
         promoData: [], // Initialize with an empty array for promotions.
         promoTags: [],
       };
       stallsMap.set(id, stallEntry);
+      memberIds.forEach((memberId) =>
+        stallsByMemberId.set(memberId, stallEntry!)
+      );
     }
 
     // --- Promotion Data Aggregation ---
@@ -261,7 +171,7 @@ export function processStalls(rawData: Record<string, string>[]): StallData[] {
 
     if (promoUser) {
       const promo: PromoStall = {
-        stallId: id,
+        stallId: stallEntry.id,
         promoUser: promoUser,
         promoAvatar: promoAvatar,
         promoHTML: promoHTML,
@@ -0,0 +1,281 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { locateStalls } from './event-config.ts';
+import { SHEET_ROW_KEY } from './data-loader.ts';
+import { computeStallCoords } from './layout-engine.ts';
+import { parseStallId, resolveMemberIds } from './stall-id.ts';
+
+/** The kinds of problems the validator can find in the sheet data. */
+export type ValidationIssueCode =
+  | 'missing-id'
+  | 'malformed-id'
+  | 'unknown-row'
+  | 'invalid-number'
+  | 'number-out-of-range'
+  | 'stall-overlap'
+  | 'conflicting-title'
+  | 'orphan-promo'
+  | 'malformed-link';
+
+/** A single problem found in one row of the sheet data. */
+export interface ValidationIssue {
+  code: ValidationIssueCode;
+  /** 'error' means the row is dropped from the map; 'warning' means it's shown but likely wrong. */
+  severity: 'error' | 'warning';
+  /** The row number in the source sheet, if the data came from a sheet. */
+  sheetRow: number | null;
+  /** The index of the row in the loaded data, for sources without sheet rows. */
+  index: number;
+  /** The stall ID of the row, if it has one. */
+  stallId: string;
+  /** A description of the problem for sheet editors. */
+  message: string;
+}
+
+// Tolerance (in map %) for a stall box sticking out of its row's border.
+const BORDER_TOLERANCE = 0.5;
+
+/**
+ * Checks whether a string is an absolute http(s) URL.
+ * @param value The string to check.
+ */
+function isHttpUrl(value: string): boolean {
+  try {
+    const url = new URL(value);
+    return url.protocol === 'http:' || url.protocol === 'https:';
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Formats a human readable reference to a row, e.g. "第 12 列" for a sheet row,
+ * or "第 3 筆" for sources without sheet rows.
+ * @param sheetRow The row number in the source sheet, if known.
+ * @param index The index of the row in the loaded data.
+ */
+export function formatRowLabel(sheetRow: number | null, index: number): string {
+  return sheetRow === null ? `第 ${index + 1} 筆` : `第 ${sheetRow} 列`;
+}
+
+/**
+ * Reads the sheet row number stored on a raw row by the CSV loader.
+ * @param rawStall The raw row.
+ * @returns The sheet row number, or null if the row didn't come from a sheet.
+ */
+function getSheetRow(rawStall: Record<string, string>): number | null {
+  const sheetRow = parseInt(rawStall[SHEET_ROW_KEY], 10);
+  return isNaN(sheetRow) ? null : sheetRow;
+}
+
+/**
+ * Validates raw sheet rows before they are processed, mirroring the rules
+ * `processStalls` uses to build stalls so that every dropped or suspicious row
+ * is reported with the sheet row it came from.
+ * @param rawData Array of objects parsed from the data source.
+ * @returns Every problem found, in sheet order.
+ */
+export function validateStallRows(
+  rawData: Record<string, string>[],
+): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  const locateStallMap = new Map(locateStalls.map((s) => [s.id, s]));
+
+  const report = (
+    index: number,
+    code: ValidationIssueCode,
+    severity: ValidationIssue['severity'],
+    message: string,
+  ) => {
+    const rawStall = rawData[index];
+    issues.push({
+      code,
+      severity,
+      sheetRow: getSheetRow(rawStall),
+      index,
+      stallId: rawStall.id || rawStall.stallId || '',
+      message,
+    });
+  };
+
+  // Stalls as `processStalls` would create them: the first row of each ID defines the stall.
+  const placedStalls: {
+    id: string;
+    index: number;
+    num: number;
+    cnt: number;
+  }[] = [];
+  const firstRowById = new Map<string, number>();
+  const titleById = new Map<string, { title: string; index: number }>();
+  // Maps every table ID of a joint stall (e.g. "K62") to the stall's primary ID.
+  const primaryIdByMemberId = new Map<string, string>();
+
+  /**
+   * Resolves a raw ID to the stall ID `processStalls` would file the row under.
+   * @param rawId The ID as written in the sheet.
+   */
+  const resolveId = (rawId: string) => {
+    const id = parseStallId(rawId)?.primaryId ?? rawId;
+    return primaryIdByMemberId.get(id) ?? id;
+  };
+
+  rawData.forEach((rawStall, index) => {
+    const rawId = rawStall.id || rawStall.stallId;
+    if (!rawId) {
+      report(index, 'missing-id', 'error', '缺少攤位編號 (id)，此列被略過。');
+      return;
+    }
+    const parsedId = parseStallId(rawId);
+    if (!parsedId) {
+      report(
+        index,
+        'malformed-id',
+        'warning',
+        `無法解讀攤位編號「${rawId}」，聯合攤位請寫成 F38F39 或 F38-40 的格式。`,
+      );
+    }
+    const id = resolveId(rawId);
+
+    const title = (rawStall.stallTitle || '').trim();
+    if (title) {
+      const previous = titleById.get(id);
+      if (!previous) {
+        titleById.set(id, { title, index });
+      } else if (previous.title !== title) {
+        const previousRow = formatRowLabel(
+          getSheetRow(rawData[previous.index]),
+          previous.index,
+        );
+        report(
+          index,
+          'conflicting-title',
+          'warning',
+          `攤位 ${id} 的名稱「${title}」與${previousRow}的「${previous.title}」不一致，將使用先出現的名稱。`,
+        );
+      }
+    }
+
+    const links = (rawStall.promoLinks || '')
+      .split(';')
+      .map((link) => link.trim())
+      .filter((link) => link);
+    links.forEach((link) => {
+      if (!isHttpUrl(link)) {
+        report(index, 'malformed-link', 'warning', `宣傳連結格式錯誤：${link}`);
+      }
+    });
+    if (rawStall.stallLink && !isHttpUrl(rawStall.stallLink.trim())) {
+      report(
+        index,
+        'malformed-link',
+        'warning',
+        `社團網站連結格式錯誤：${rawStall.stallLink}`,
+      );
+    }
+    if (rawStall.promoAvatar && !isHttpUrl(rawStall.promoAvatar.trim())) {
+      report(
+        index,
+        'malformed-link',
+        'warning',
+        `頭像網址格式錯誤：${rawStall.promoAvatar}`,
+      );
+    }
+
+    if (firstRowById.has(id)) return;
+    firstRowById.set(id, index);
+
+    const line = id.substring(0, 1);
+    const num = parseInt(rawStall.num, 10) || parsedId?.nums[0] || NaN;
+    const stallCnt =
+      parseInt(rawStall.stallCnt, 10) || parsedId?.memberIds.length || 1;
+    const locateStall = locateStallMap.get(line);
+
+    if (!locateStall) {
+      report(
+        index,
+        'unknown-row',
+        'error',
+        `找不到排「${line}」，攤位 ${id} 無法顯示在地圖上。`,
+      );
+      return;
+    }
+    if (isNaN(num)) {
+      report(
+        index,
+        'invalid-number',
+        'error',
+        `攤位 ${id} 的編號 (num)「${rawStall.num ?? ''}」不是數字，無法顯示在地圖上。`,
+      );
+      return;
+    }
+
+    // A number is out of range if the stall would be drawn outside its row's border.
+    const { numericCoords: box } = computeStallCoords(
+      locateStall,
+      num,
+      stallCnt,
+    );
+    const { border } = locateStall;
+    if (
+      num < 1 ||
+      box.left < border.left - BORDER_TOLERANCE ||
+      box.left + box.width > border.right + BORDER_TOLERANCE ||
+      box.top < border.top - BORDER_TOLERANCE ||
+      box.top + box.height > border.bottom + BORDER_TOLERANCE
+    ) {
+      report(
+        index,
+        'number-out-of-range',
+        'warning',
+        `攤位 ${id}（編號 ${num}，共 ${stallCnt} 攤）超出「${line}」排的範圍。`,
+      );
+    }
+
+    resolveMemberIds(parsedId, line, num, stallCnt).forEach((memberId) =>
+      primaryIdByMemberId.set(memberId, id),
+    );
+    placedStalls.push({ id, index, num, cnt: stallCnt });
+  });
+
+  // Promotions are only shown for stalls that have an official row with a title.
+  rawData.forEach((rawStall, index) => {
+    const rawId = rawStall.id || rawStall.stallId;
+    const id = rawId && resolveId(rawId);
+    if (id && rawStall.promoUser && !titleById.has(id)) {
+      report(
+        index,
+        'orphan-promo',
+        'warning',
+        `宣傳「${rawStall.promoUser}」對應的攤位 ${id} 沒有官方資料列（stallTitle）。`,
+      );
+    }
+  });
+
+  // Stalls spanning several tables (stallCnt) must not cover a neighbour's number.
+  const stallsByLine = new Map<string, typeof placedStalls>();
+  placedStalls.forEach((stall) => {
+    const line = stall.id.substring(0, 1);
+    if (!stallsByLine.has(line)) stallsByLine.set(line, []);
+    stallsByLine.get(line)!.push(stall);
+  });
+  stallsByLine.forEach((stalls) => {
+    stalls.sort((a, b) => a.num - b.num);
+    for (let i = 1; i < stalls.length; i++) {
+      const previous = stalls[i - 1];
+      const current = stalls[i];
+      if (previous.num + previous.cnt - 1 >= current.num) {
+        report(
+          previous.index,
+          'stall-overlap',
+          'warning',
+          `攤位 ${previous.id} 佔 ${previous.cnt} 攤，與相鄰的攤位 ${current.id} 重疊。`,
+        );
+      }
+    }
+  });
+
+  return issues.sort((a, b) => a.index - b.index);
+}
@@ -0,0 +1,104 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/** The direction a finger swiped in. */
+export type SwipeDirection = 'left' | 'right' | 'down';
+
+/** Callbacks for the swipes and pulls on an element. */
+export interface SwipeHandlers {
+  /** Called when a swipe ends. */
+  onSwipe: (direction: SwipeDirection) => void;
+  /**
+   * Returns true if a downward drag may pull the element, e.g. because its content
+   * is scrolled to the top. Checked when the finger touches down.
+   * @param target Where the finger touched down.
+   */
+  canPull: (target: HTMLElement) => boolean;
+  /** Called while the element is pulled down, with the distance in pixels; 0 on release. */
+  onPull: (distance: number) => void;
+}
+
+// A horizontal swipe must travel this far (px) within SWIPE_MAX_DURATION_MS, and
+// mostly sideways, so scrolling and tapping don't trigger it.
+const SWIPE_MIN_DISTANCE = 60;
+const SWIPE_MAX_DURATION_MS = 600;
+// A pull dismisses once dragged this far (px), however slowly.
+const PULL_MIN_DISTANCE = 100;
+// How much more the main axis must move than the other one.
+const AXIS_RATIO = 1.5;
+
+/**
+ * Recognises one-finger swipes on an element: quick horizontal swipes, and
+ * downward pulls that start where `canPull` allows. A pull reports its progress
+ * as it goes, so the element can follow the finger.
+ * @param element The element to listen on.
+ * @param handlers Callbacks for the recognised gestures.
+ */
+export function attachSwipeGestures(
+  element: HTMLElement,
+  handlers: SwipeHandlers,
+) {
+  let startX = 0;
+  let startY = 0;
+  let startTime = 0;
+  let isTracking = false;
+  let isPullAllowed = false;
+  let isPulling = false;
+
+  element.addEventListener(
+    'touchstart',
+    (e) => {
+      // A second finger means a pinch or a zoom, not a swipe.
+      isTracking = e.touches.length === 1;
+      if (!isTracking) return;
+      startX = e.touches[0].clientX;
+      startY = e.touches[0].clientY;
+      startTime = Date.now();
+      isPullAllowed = handlers.canPull(e.target as HTMLElement);
+      isPulling = false;
+    },
+    { passive: true },
+  );
+
+  element.addEventListener(
+    'touchmove',
+    (e) => {
+      if (!isTracking || !isPullAllowed) return;
+      const dx = e.touches[0].clientX - startX;
+      const dy = e.touches[0].clientY - startY;
+      if (isPulling || (dy > 0 && dy > Math.abs(dx) * AXIS_RATIO)) {
+        isPulling = true;
+        handlers.onPull(Math.max(0, dy));
+      }
+    },
+    { passive: true },
+  );
+
+  const onEnd = (e: TouchEvent) => {
+    if (!isTracking) return;
+    isTracking = false;
+    const touch = e.changedTouches[0];
+    const dx = touch.clientX - startX;
+    const dy = touch.clientY - startY;
+
+    if (isPulling) {
+      handlers.onPull(0);
+      if (dy >= PULL_MIN_DISTANCE) handlers.onSwipe('down');
+      return;
+    }
+    if (
+      Date.now() - startTime <= SWIPE_MAX_DURATION_MS &&
+      Math.abs(dx) >= SWIPE_MIN_DISTANCE &&
+      Math.abs(dx) > Math.abs(dy) * AXIS_RATIO
+    ) {
+      handlers.onSwipe(dx < 0 ? 'left' : 'right');
+    }
+  };
+  element.addEventListener('touchend', onEnd);
+  element.addEventListener('touchcancel', () => {
+    if (isPulling) handlers.onPull(0);
+    isTracking = false;
+  });
+}
@@ -0,0 +1,212 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { RankedStall } from './search.ts';
+import type { StallData } from './types.ts';
+
+/** How selected tags combine: a stall needs all of them, or any one. */
+export type TagMatchMode = 'and' | 'or';
+
+/** The tags selected in the facet bar. */
+export interface TagFilter {
+  tags: Set<string>;
+  mode: TagMatchMode;
+}
+
+/** The facet bar's selection, shared by the map highlights and the modal navigation. */
+export const tagFilter: TagFilter = {
+  tags: new Set<string>(),
+  mode: 'and',
+};
+
+/** The public API of the tag facet bar. */
+export interface TagFacetController {
+  /**
+   * Re-renders the facets for the current search.
+   * @param allStalls Every stall, which decides which tags are listed.
+   * @param queryResults The stalls matching the search box, before the tag filter.
+   */
+  render: (allStalls: StallData[], queryResults: RankedStall[]) => void;
+}
+
+/**
+ * Returns true if any tag is selected.
+ * @param filter The tag filter.
+ */
+export function isTagFilterActive(filter: TagFilter): boolean {
+  return filter.tags.size > 0;
+}
+
+/**
+ * Tests a stall against the selected tags.
+ * @param stall The stall.
+ * @param filter The tag filter.
+ */
+function matchesTagFilter(stall: StallData, filter: TagFilter): boolean {
+  const hasTag = (tag: string) => stall.promoTags.includes(tag);
+  return filter.mode === 'and'
+    ? [...filter.tags].every(hasTag)
+    : [...filter.tags].some(hasTag);
+}
+
+/**
+ * Narrows search results to the stalls with the selected tags. The selected tags a
+ * stall has are added to its match reasons, so they show up like typed `tag:` terms.
+ * @param results The search results.
+ * @param filter The tag filter.
+ * @returns The results that pass the filter, in the same order.
+ */
+export function applyTagFilter(
+  results: RankedStall[],
+  filter: TagFilter,
+): RankedStall[] {
+  if (!isTagFilterActive(filter)) return results;
+  return results
+    .filter(({ stall }) => matchesTagFilter(stall, filter))
+    .map((result) => ({
+      ...result,
+      reasons: [
+        ...result.reasons,
+        ...result.stall.promoTags
+          .filter((tag) => filter.tags.has(tag))
+          .map((tag) => ({
+            field: 'tag' as const,
+            value: tag,
+            term: tag,
+            distance: 0,
+          })),
+      ],
+    }));
+}
+
+/**
+ * Counts the stalls carrying each tag.
+ * @param stalls The stalls to count.
+ * @returns The count per tag.
+ */
+export function countTags(stalls: StallData[]): Map<string, number> {
+  const counts = new Map<string, number>();
+  stalls.forEach((stall) => {
+    stall.promoTags.forEach((tag) => {
+      counts.set(tag, (counts.get(tag) ?? 0) + 1);
+    });
+  });
+  return counts;
+}
+
+/**
+ * Creates the tag facet bar: a chip per tag with the number of stalls it would
+ * match, which can be toggled to filter the map, plus an AND/OR switch. Counts
+ * follow the other filters: in AND mode they count within the current selection
+ * (how many stalls would remain), in OR mode within the search box's results.
+ * @param container The element the bar is rendered into; hidden when no stall has tags.
+ * @param filter The filter state the bar edits.
+ * @param onChange Called after the selection or mode changes.
+ * @returns A controller to re-render the counts with.
+ */
+export function createTagFacetBar(
+  container: HTMLElement,
+  filter: TagFilter,
+  onChange: () => void,
+): TagFacetController {
+  container.addEventListener('click', (e) => {
+    const target = e.target as HTMLElement;
+    const chip = target.closest('.tag-facet') as HTMLElement | null;
+    const modeButton = target.closest('.tag-facet-mode') as HTMLElement | null;
+
+    if (chip?.dataset.tag) {
+      const { tag } = chip.dataset;
+      if (filter.tags.has(tag)) {
+        filter.tags.delete(tag);
+      } else {
+        filter.tags.add(tag);
+      }
+    } else if (modeButton?.dataset.mode) {
+      filter.mode = modeButton.dataset.mode as TagMatchMode;
+    } else if (target.closest('.tag-facet-clear')) {
+      filter.tags.clear();
+    } else {
+      return;
+    }
+    onChange();
+  });
+
+  const render = (allStalls: StallData[], queryResults: RankedStall[]) => {
+    // Tags are listed in a fixed order (most used overall first), so chips don't
+    // jump around as the counts change.
+    const totals = countTags(allStalls);
+    const tags = [...totals.keys()].sort(
+      (a, b) => totals.get(b)! - totals.get(a)! || a.localeCompare(b),
+    );
+    container.classList.toggle('hidden', tags.length === 0);
+    if (tags.length === 0) return;
+
+    const countedStalls =
+      filter.mode === 'and'
+        ? applyTagFilter(queryResults, filter)
+        : queryResults;
+    const counts = countTags(countedStalls.map(({ stall }) => stall));
+
+    const header = document.createElement('div');
+    header.className = 'tag-facets-header';
+
+    const label = document.createElement('span');
+    label.className = 'tag-facets-label';
+    label.textContent = '標籤篩選';
+    header.appendChild(label);
+
+    (
+      [
+        ['and', '全部符合'],
+        ['or', '任一符合'],
+      ] as [TagMatchMode, string][]
+    ).forEach(([mode, text]) => {
+      const button = document.createElement('button');
+      button.type = 'button';
+      button.className = 'tag-facet-mode';
+      button.dataset.mode = mode;
+      button.textContent = text;
+      button.setAttribute('aria-pressed', String(filter.mode === mode));
+      header.appendChild(button);
+    });
+
+    if (isTagFilterActive(filter)) {
+      const clear = document.createElement('button');
+      clear.type = 'button';
+      clear.className = 'tag-facet-clear';
+      clear.textContent = '清除';
+      header.appendChild(clear);
+    }
+
+    const previousList = container.querySelector('.tag-facet-list');
+    const list = document.createElement('div');
+    list.className = 'tag-facet-list';
+    tags.forEach((tag) => {
+      const count = counts.get(tag) ?? 0;
+      const isSelected = filter.tags.has(tag);
+
+      const chip = document.createElement('button');
+      chip.type = 'button';
+      chip.className = 'tag-facet';
+      chip.dataset.tag = tag;
+      chip.setAttribute('aria-pressed', String(isSelected));
+      // Selecting a tag no remaining stall has would only empty the map.
+      chip.disabled = count === 0 && !isSelected;
+
+      const countEl = document.createElement('span');
+      countEl.className = 'tag-facet-count';
+      countEl.textContent = String(count);
+
+      chip.append(tag, countEl);
+      list.appendChild(chip);
+    });
+
+    container.replaceChildren(header, list);
+    // Keep the chips scrolled where they were.
+    list.scrollTop = previousList?.scrollTop ?? 0;
+  };
+
+  return { render };
+}
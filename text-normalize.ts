@@ -0,0 +1,81 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * Simplified Chinese characters and their Traditional forms, as consecutive pairs.
+ * Covers common characters; characters whose Simplified form is also a distinct
+ * Traditional character in its own right (e.g. 后, 发, 面, 斗, 几, 云, 叶, 冲, 准,
+ * 伙, 游) are left out to avoid false matches.
+ */
+const SIMPLIFIED_TRADITIONAL_PAIRS =
+  '爱愛碍礙袄襖罢罷摆擺败敗办辦帮幫宝寶报報备備贝貝笔筆币幣毕畢边邊变變标標别別宾賓饼餅补補蚕蠶灿燦仓倉层層产產尝嘗长長场場厂廠车車尘塵陈陳称稱诚誠迟遲齿齒虫蟲' +
+  '处處础礎传傳创創纯純词詞辞辭聪聰丛叢从從错錯达達带帶单單担擔胆膽当當党黨导導灯燈邓鄧敌敵递遞点點电電垫墊钓釣调調叠疊东東动動冻凍独獨读讀断斷队隊对對吨噸夺奪' +
+  '堕墮恶惡儿兒尔爾饭飯访訪飞飛废廢费費纷紛坟墳奋奮风風丰豐凤鳳妇婦复復负負赶趕刚剛钢鋼纲綱个個给給巩鞏贡貢沟溝构構购購顾顧刮颳关關观觀馆館惯慣广廣归歸龟龜规規贵貴' +
+  '国國过過汉漢号號华華画畫话話怀懷坏壞欢歡环環还還换換唤喚黄黃会會汇匯获獲货貨击擊机機积積鸡雞极極级級计計记記际際继繼纪紀价價驾駕坚堅间間监監简簡见見剑劍' +
+  '舰艦将將奖獎讲講酱醬胶膠骄驕脚腳觉覺较較阶階节節洁潔结結紧緊尽盡进進惊驚经經静靜镜鏡旧舊剧劇举舉惧懼绝絕军軍开開壳殼课課垦墾恳懇库庫块塊宽寬亏虧扩擴腊臘蜡蠟来來' +
+  '蓝藍兰蘭栏欄烂爛劳勞乐樂类類泪淚离離礼禮丽麗历歷厉厲励勵连連联聯恋戀练練炼煉脸臉凉涼两兩辆輛疗療辽遼猎獵临臨灵靈龄齡岭嶺领領刘劉龙龍楼樓芦蘆卢盧录錄陆陸鲁魯虑慮' +
+  '乱亂论論罗羅萝蘿逻邏马馬骂罵买買卖賣迈邁满滿猫貓么麼门門们們梦夢弥彌绵綿庙廟灭滅鸣鳴亩畝难難脑腦恼惱内內拟擬鸟鳥宁寧农農浓濃纽紐欧歐盘盤赔賠喷噴苹蘋凭憑评評扑撲' +
+  '仆僕铺鋪齐齊骑騎岂豈启啟气氣弃棄迁遷钱錢签簽浅淺枪槍墙牆桥橋乔喬亲親轻輕庆慶穷窮区區权權劝勸确確让讓热熱认認荣榮软軟闪閃伤傷赏賞烧燒绍紹设設摄攝绅紳审審声聲圣聖' +
+  '师師诗詩时時识識实實势勢视視试試适適释釋寿壽书書树樹术術数數帅帥双雙说說丝絲虽雖随隨岁歲孙孫损損锁鎖态態谈談汤湯烫燙涛濤讨討腾騰题題体體条條铁鐵听聽厅廳头頭图圖' +
+  '团團万萬湾灣网網围圍为為伟偉卫衛闻聞问問稳穩乌烏无無误誤务務雾霧戏戲细細虾蝦吓嚇险險现現显顯县縣线線乡鄉响響项項萧蕭协協写寫谢謝兴興选選学學寻尋压壓鸭鴨亚亞烟煙' +
+  '严嚴盐鹽颜顏验驗阳陽养養样樣摇搖药藥爷爺业業页頁医醫仪儀艺藝忆憶亿億义義议議异異阴陰银銀饮飲隐隱应應营營赢贏拥擁优優忧憂邮郵犹猶鱼魚语語与與预預园園员員圆圓' +
+  '远遠愿願约約跃躍运運杂雜灾災载載赞讚枣棗泽澤则則贼賊张張涨漲帐帳赵趙这這针針侦偵阵陣镇鎮争爭证證郑鄭织織职職执執纸紙质質钟鐘终終种種众眾轴軸猪豬烛燭筑築专專' +
+  '转轉装裝壮壯状狀资資总總纵縱组組钻鑽闹鬧绘繪缘緣娱娛饰飾贴貼挂掛钥鑰册冊频頻韩韓谁誰颗顆绣繡钩鉤编編缝縫纹紋铃鈴铜銅锦錦铭銘链鏈阁閣阅閱阔闊顶頂顺順须須颂頌' +
+  '额額飘飄驰馳驱驅鲜鮮鸿鴻鹤鶴鹰鷹麦麥战戰杀殺兽獸狮獅樱櫻萤螢码碼络絡弹彈岛島滨濱沪滬粤粵闽閩啰囉吗嗎呗唄哒噠咏詠讯訊译譯诺諾饺餃馒饅鲸鯨鲨鯊鳞鱗鸦鴉鹅鵝鸽鴿' +
+  '凯凱岚嵐峡峽浏瀏览覽轮輪轨軌辉輝闯闖阎閻陨隕饿餓馅餡驴驢骗騙骚騷鬓鬢鲤鯉鳄鱷鸥鷗黉黌晓曉暧曖昵暱晕暈杰傑枫楓栋棟检檢榄欖殇殤毁毀泼潑洒灑浊濁测測浑渾涡渦涩澀渊淵' +
+  '渐漸溃潰滚滾滞滯滤濾滥濫潇瀟炉爐牍牘犊犢狭狹狱獄猕獼献獻玛瑪玺璽琼瓊瑶瑤畅暢疯瘋痒癢瘾癮盖蓋盗盜眯瞇矫矯砖磚祸禍秃禿窃竊竞競笋筍筛篩粮糧纠糾纤纖纬緯纱紗纳納纶綸' +
+  '纺紡绊絆绑綁绒絨绕繞统統绢絹绩績绪緒续續绮綺绯緋绳繩维維绸綢绿綠缀綴缅緬缆纜缓緩缚縛缠纏缩縮罚罰羁羈肃肅肠腸肤膚肾腎肿腫胀脹胁脅脉脈脱脫腻膩艰艱艳艷芜蕪苍蒼茎莖' +
+  '荐薦莲蓮莹瑩萨薩蔷薔虏虜虚虛蚀蝕蚁蟻蛮蠻蜕蛻蝇蠅衅釁衬襯袜襪裤褲誉譽订訂训訓讳諱许許讽諷诉訴诞誕询詢该該详詳请請诸諸谊誼谋謀谜謎谣謠谦謙谨謹谱譜贞貞财財责責贤賢' +
+  '贩販贪貪贫貧贯貫贱賤贷貸贸貿贺賀赋賦赌賭赐賜赖賴赚賺赛賽赠贈趋趨践踐踪蹤轧軋轩軒轰轟轿轎辅輔辈輩输輸辑輯辖轄辩辯违違逊遜遗遺遥遙邻鄰酝醞鉴鑑钉釘钙鈣钝鈍钞鈔钦欽' +
+  '铅鉛销銷锅鍋锋鋒锐銳锡錫锤錘键鍵锻鍛闭閉闷悶阀閥雏雛韵韻顽頑顿頓颁頒颇頗饥飢饱飽饲飼驭馭驯馴驳駁驻駐驼駝骤驟鸳鴛鸯鴦鹃鵑鹦鸚鹉鵡';
+
+const traditionalBySimplified = new Map<string, string>();
+for (let i = 0; i < SIMPLIFIED_TRADITIONAL_PAIRS.length; i += 2) {
+  traditionalBySimplified.set(
+    SIMPLIFIED_TRADITIONAL_PAIRS[i],
+    SIMPLIFIED_TRADITIONAL_PAIRS[i + 1],
+  );
+}
+
+// Small kana and their full-size forms, e.g. "ぁ" → "あ".
+const SMALL_KANA = 'ぁぃぅぇぉっゃゅょゎゕゖ';
+const FULL_SIZE_KANA = 'あいうえおつやゆよわかけ';
+
+const KATAKANA_START = 0x30a1;
+const KATAKANA_END = 0x30f6;
+// The distance between a katakana and its hiragana counterpart.
+const KATAKANA_TO_HIRAGANA = 0x60;
+
+/**
+ * Folds a single character to its search form: full-width and half-width forms are
+ * unified (NFKC), letters lower-cased, katakana and small kana folded to full-size
+ * hiragana, and Simplified Chinese folded to Traditional.
+ * @param char A single character (code point).
+ * @returns The folded form. Usually one character, but NFKC can expand some
+ *   compatibility characters (e.g. "㈱" → "(株)").
+ */
+export function foldChar(char: string): string {
+  return Array.from(char.normalize('NFKC').toLowerCase())
+    .map((c) => {
+      const code = c.codePointAt(0)!;
+      if (code >= KATAKANA_START && code <= KATAKANA_END) {
+        c = String.fromCodePoint(code - KATAKANA_TO_HIRAGANA);
+      }
+      const smallIndex = SMALL_KANA.indexOf(c);
+      if (smallIndex !== -1) c = FULL_SIZE_KANA[smallIndex];
+      return traditionalBySimplified.get(c) ?? c;
+    })
+    .join('');
+}
+
+/**
+ * Normalises text for searching, so that e.g. "Ａ０１" matches "a01", "简体" matches
+ * "簡體" and "カード" matches "かーど". Folding works character by character, so
+ * positions in the folded text can be mapped back to the original.
+ * @param text The text to normalise.
+ */
+export function normalizeText(text: string): string {
+  return Array.from(text).map(foldChar).join('').trim();
+}
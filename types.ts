@@ -38,6 +38,11 @@ export interface StallData {
   num: number;
 
   stallCnt: number;
+  /**
+   * The IDs of every table the stall covers, e.g. ["K61", "K62"] for a joint stall.
+   * The first one is the stall's `id`.
+   */
+  memberIds: string[];
   /** The calculated string-based coordinates and dimensions for the stall's interactive area on the map. */
   coords: {
     top: string;
@@ -57,6 +62,8 @@ export interface StallData {
   stallTitle: string;
   /** The optional URL for the stall's official promotional image. */
   stallImg?: string;
+  /** A local copy of `stallImg`, used if the CDN fails to serve it. */
+  stallImgFallback?: string;
   /** The optional URL for the stall's main website or social media. */
   stallLink?: string;
   /** An array of all user-submitted promotions associated with this stall. */
@@ -65,6 +72,34 @@ export interface StallData {
   promoTags: string[];
 }
 
+/** An inclusive range of stall numbers. An omitted `to` means "and everything after". */
+export interface StallNumberRange {
+  from: number;
+  to?: number;
+}
+
+/**
+ * Declarative description of how the stall numbers of a row are laid out on the map,
+ * relative to the row's template stall. Used by the layout engine to compute every
+ * stall's position, so a new venue only needs data changes.
+ */
+export interface RowLayout {
+  /** The direction in which stall numbers advance: 'left' for horizontal rows, 'up' for vertical columns. */
+  direction: 'left' | 'up';
+  /**
+   * Serpentine numbering: numbers after `wrapAfter` turn around and come back along a
+   * parallel line (above a horizontal row, left of a vertical column), `lineGap` apart.
+   */
+  serpentine?: { wrapAfter: number; lineGap: number };
+  /** Extra spacing (in map %) in the direction of advance for ranges of numbers, e.g. aisles. */
+  gaps?: (StallNumberRange & { size: number })[];
+  /**
+   * Ranges of numbers that all occupy a single slot instead of one slot each.
+   * Numbers after such a range continue from the next slot.
+   */
+  sharedSlots?: { from: number; to: number; slot: number }[];
+}
+
 /**
  * Data for locating the start of a stall column on the map.
  * This is used as a template to calculate the exact position of each stall in that column.
@@ -88,6 +123,57 @@ export interface LocateStall {
     bottom: number;
     right: number;
   };
+  /** How the stall numbers of this row are laid out relative to `coords`. */
+  layout: RowLayout;
   /** If true, this row is treated as a single clickable area. */
   isGrouped?: boolean;
 }
+
+/** One entry of the map legend: a colour swatch and what it means. */
+export interface LegendEntry {
+  /** The CSS class that colours the swatch, e.g. "legend-promo". */
+  className: string;
+  /** The label shown next to the swatch. */
+  label: string;
+}
+
+/**
+ * Everything that ties the map to one event (convention). Each event gets its own
+ * bundle, so maps for several events can be built and browsed from one codebase.
+ */
+export interface EventConfig {
+  /** A stable identifier used in `?event=`, e.g. "nice-0816". */
+  id: string;
+  /** The event's name, shown as the page heading. */
+  name: string;
+  /** The document title. */
+  pageTitle: string;
+  /** First and last day of the event, as ISO dates (YYYY-MM-DD). */
+  startDate: string;
+  endDate: string;
+  /** The venue map image. */
+  mapImage: { src: string; alt: string };
+  /** The row templates and layout specs for the venue. */
+  locateStalls: LocateStall[];
+  /**
+   * The row IDs in the order moving up the map visits them. The up/down arrows and
+   * the row indicators step through this list; rows left out are skipped.
+   */
+  rowOrder: string[];
+  /** The default stall data source spec, e.g. `csv:<url>`. */
+  dataSource: string;
+  /** Where the event's stall images are hosted. */
+  assets: {
+    /** The path prefix the sheet uses for local assets, e.g. "assets/2025/". */
+    localDir: string;
+    /** The CDN base URL the local assets are mirrored to, without the version. */
+    cdnBase: string;
+    /** The version (e.g. commit) of the CDN copy to use. */
+    version: string;
+  };
+  /**
+   * The legend shown above the map. The app adds the entries for its own markers,
+   * such as favorites and visit statuses.
+   */
+  legend: LegendEntry[];
+}
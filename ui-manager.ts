@@ -3,14 +3,18 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-import { locateStalls } from './official-data.ts';
+import { locateStalls } from './event-config.ts';
 import type { DOMElements } from './dom-elements.ts';
 import type { MagnifierController } from './magnifier.ts';
 import type { StallData } from './types.ts';
+import type { StallDiff } from './live-refresh.ts';
+import { getVisitStatusClass, visitStatuses } from './visit-status.ts';
+import type { VisitStatus } from './visit-status.ts';
 
 /** Defines the shape of the shared UI state object. */
 export interface UIState {
   selectedStallElement: HTMLElement | null;
+  stallIdToElementMap: Map<string, HTMLElement>;
   stallIdToModalCloneMap: Map<string, HTMLElement>;
   rowIdToModalGroupCloneMap: Map<string, HTMLElement>;
 }
@@ -18,10 +22,67 @@ export interface UIState {
 /** Shared state for UI elements across different modules. */
 export const uiState: UIState = {
   selectedStallElement: null,
+  stallIdToElementMap: new Map<string, HTMLElement>(),
   stallIdToModalCloneMap: new Map<string, HTMLElement>(),
   rowIdToModalGroupCloneMap: new Map<string, HTMLElement>(),
 };
 
+// This set contains rows that are *permanently* grouped on all screen sizes.
+const permanentlyGroupedRowIds = new Set(
+  locateStalls.filter((r) => r.isGrouped).map((r) => r.id),
+);
+
+/**
+ * Applies a stall's data (position, promo state, label and number) to its map element.
+ * Used both when creating an element and when updating it in place after a refresh.
+ * @param area The stall element on the main map.
+ * @param stall The stall data to apply.
+ */
+function applyStallData(area: HTMLElement, stall: StallData) {
+  area.classList.toggle('has-promo', stall.promoData.length > 0);
+
+  // Stalls that are members of a permanently grouped row are hidden on the main map (on all screen sizes).
+  const rowId = stall.id.substring(0, 1);
+  area.classList.toggle(
+    'is-grouped-member',
+    permanentlyGroupedRowIds.has(rowId),
+  );
+
+  area.dataset.stallId = stall.id;
+  area.style.top = stall.coords.top;
+  area.style.left = stall.coords.left;
+  area.style.width = stall.coords.width;
+  area.style.height = stall.coords.height;
+  area.setAttribute('aria-label', `Stall: ${stall.stallTitle}`);
+  area.textContent = stall.num ? stall.num.toString().padStart(2, '0') : '';
+}
+
+/**
+ * Creates a stall element on the main map along with its magnifier and modal mini-map clones.
+ * @param stall The stall to render.
+ * @param elements A reference to all DOM elements.
+ * @param magnifierController The controller for the desktop magnifier.
+ * @param state The shared UI state object.
+ */
+function addStallArea(
+  stall: StallData,
+  elements: DOMElements,
+  magnifierController: MagnifierController | null,
+  state: UIState,
+) {
+  const area = document.createElement('div');
+  area.className = 'stall-area';
+  applyStallData(area, stall);
+
+  elements.mapContainer.appendChild(area);
+  state.stallIdToElementMap.set(stall.id, area);
+  magnifierController?.addStall(area);
+
+  const modalClone = area.cloneNode(true) as HTMLElement;
+  elements.modalMagnifierStallLayer.appendChild(modalClone);
+  state.stallIdToModalCloneMap.set(stall.id, modalClone);
+}
+
 /**
  * Renders all stall areas onto the map and creates clones for the magnifiers.
  * @param allStalls The list of all processed stalls.
@@ -35,44 +96,11 @@ export function renderStalls(
   magnifierController: MagnifierController | null,
   state: UIState,
 ) {
-  // This set contains rows that are *permanently* grouped on all screen sizes.
-  const permanentlyGroupedRowIds = new Set(
-    locateStalls.filter((r) => r.isGrouped).map((r) => r.id),
-  );
-
   // --- 1. Render all individual stall elements ---
   // They are created for logic, cloning, and desktop view. CSS will manage visibility.
   allStalls.forEach((stall) => {
     if (!stall.coords) return;
-
-    const area = document.createElement('div');
-    area.className = 'stall-area';
-    if (stall.promoData.length > 0) {
-      area.classList.add('has-promo');
-    }
-
-    // Stalls that are members of a permanently grouped row are hidden on the main map (on all screen sizes).
-    const rowId = stall.id.substring(0, 1);
-    if (permanentlyGroupedRowIds.has(rowId)) {
-      area.classList.add('is-grouped-member');
-    }
-
-    area.dataset.stallId = stall.id;
-    area.style.top = stall.coords.top;
-    area.style.left = stall.coords.left;
-    area.style.width = stall.coords.width;
-    area.style.height = stall.coords.height;
-    area.setAttribute('aria-label', `Stall: ${stall.stallTitle}`);
-    if (stall.num) {
-      area.textContent = stall.num.toString().padStart(2, '0');
-    }
-
-    elements.mapContainer.appendChild(area);
-    magnifierController?.addStall(area);
-
-    const modalClone = area.cloneNode(true) as HTMLElement;
-    elements.modalMagnifierStallLayer.appendChild(modalClone);
-    state.stallIdToModalCloneMap.set(stall.id, modalClone);
+    addStallArea(stall, elements, magnifierController, state);
   });
 
   // --- 2. Create the visible, clickable group areas for ALL rows ---
@@ -111,6 +139,60 @@ export function renderStalls(
   });
 }
 
+/**
+ * Applies a data refresh to the rendered map without re-rendering it. Only the
+ * stall elements in the diff are touched: changed stalls are updated in place and
+ * their clones re-synced, new stalls are rendered, and removed stalls are deleted.
+ * Classes such as `is-selected` and `is-search-match` on unchanged stalls survive.
+ * @param diff The difference between the rendered and the refreshed stalls.
+ * @param elements A reference to all DOM elements.
+ * @param magnifierController The controller for the desktop magnifier.
+ * @param state The shared UI state object.
+ */
+export function reconcileStalls(
+  diff: StallDiff,
+  elements: DOMElements,
+  magnifierController: MagnifierController | null,
+  state: UIState,
+) {
+  diff.removed.forEach((stall) => {
+    const area = state.stallIdToElementMap.get(stall.id);
+    if (area && area === state.selectedStallElement) {
+      clearSelection(elements, magnifierController, state);
+    }
+    area?.remove();
+    state.stallIdToElementMap.delete(stall.id);
+    magnifierController?.removeStall(stall.id);
+    state.stallIdToModalCloneMap.get(stall.id)?.remove();
+    state.stallIdToModalCloneMap.delete(stall.id);
+  });
+
+  diff.changed.forEach((stall) => {
+    const area = state.stallIdToElementMap.get(stall.id);
+    if (!area) return;
+    applyStallData(area, stall);
+    magnifierController?.syncStall(stall.id);
+
+    // Replace the modal clone, keeping its viewport culling state.
+    const oldClone = state.stallIdToModalCloneMap.get(stall.id);
+    const modalClone = area.cloneNode(true) as HTMLElement;
+    if (oldClone) {
+      modalClone.classList.toggle(
+        'modal-map-hidden',
+        oldClone.classList.contains('modal-map-hidden'),
+      );
+      oldClone.replaceWith(modalClone);
+    } else {
+      elements.modalMagnifierStallLayer.appendChild(modalClone);
+    }
+    state.stallIdToModalCloneMap.set(stall.id, modalClone);
+  });
+
+  diff.added.forEach((stall) => {
+    addStallArea(stall, elements, magnifierController, state);
+  });
+}
+
 /**
  * Updates a class on a stall element and its clones in both magnifiers.
  * @param stallElement The stall element on the main map.
@@ -144,6 +226,58 @@ export function updateStallClass(
   }
 }
 
+/**
+ * Marks a stall as a favorite, or unmarks it, on the map and in both magnifiers.
+ * @param stallId The stall's ID.
+ * @param isFavorite Whether the stall is a favorite.
+ * @param magnifierController The controller for the desktop magnifier.
+ * @param state The shared UI state object.
+ */
+export function setFavoriteClass(
+  stallId: string,
+  isFavorite: boolean,
+  magnifierController: MagnifierController | null,
+  state: UIState,
+) {
+  const area = state.stallIdToElementMap.get(stallId);
+  if (area) {
+    updateStallClass(
+      area,
+      'is-favorite',
+      isFavorite,
+      magnifierController,
+      state,
+    );
+  }
+}
+
+/**
+ * Shows a stall's visit status on the map and in both magnifiers, replacing the
+ * class of its previous status.
+ * @param stallId The stall's ID.
+ * @param status The stall's status, or null for none.
+ * @param magnifierController The controller for the desktop magnifier.
+ * @param state The shared UI state object.
+ */
+export function setVisitStatusClass(
+  stallId: string,
+  status: VisitStatus | null,
+  magnifierController: MagnifierController | null,
+  state: UIState,
+) {
+  const area = state.stallIdToElementMap.get(stallId);
+  if (!area) return;
+  visitStatuses.forEach((s) =>
+    updateStallClass(
+      area,
+      getVisitStatusClass(s),
+      s === status,
+      magnifierController,
+      state,
+    ),
+  );
+}
+
 /**
  * Clears the currently selected stall, resetting its style and hiding the tooltip.
  * @param elements A reference to all DOM elements.
@@ -167,3 +301,15 @@ export function clearSelection(
   state.selectedStallElement = null;
   elements.tooltip.classList.add('hidden');
 }
+
+/**
+ * Returns true if a key event's target is a field the user types into, whose keys
+ * must not trigger single-key shortcuts.
+ * @param target The event's target.
+ */
+export function isEditableTarget(target: EventTarget | null): boolean {
+  return (
+    target instanceof Element &&
+    target.closest('input, textarea, select, [contenteditable]') !== null
+  );
+}
@@ -0,0 +1,144 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/** The parts of the app's state kept in the URL, so a view can be shared. */
+export interface UrlState {
+  /** The search box's query (`?q=`). */
+  query: string;
+  /** The stall whose details are open (`?stall=`), or null if the modal is closed. */
+  stallId: string | null;
+  /** The magnifier's center in map percent (`?mag=x,y`), or null if it's hidden. */
+  magnifier: { x: number; y: number } | null;
+}
+
+/** The data stored with each history entry the app creates. */
+interface HistoryEntryState {
+  /** How many stall entries deep this entry is, counted from the closed modal. */
+  modalDepth: number;
+}
+
+/**
+ * Reads the app state from a URL query string. Unrelated parameters (e.g. `event`)
+ * are ignored.
+ * @param search The query string, e.g. `window.location.search`.
+ */
+export function readUrlState(search: string): UrlState {
+  const params = new URLSearchParams(search);
+  const [x, y] = (params.get('mag') ?? '').split(',').map(Number);
+  return {
+    query: params.get('q') ?? '',
+    stallId: params.get('stall') || null,
+    magnifier:
+      params.has('mag') && Number.isFinite(x) && Number.isFinite(y)
+        ? { x, y }
+        : null,
+  };
+}
+
+/**
+ * Builds the current URL with the given app state, keeping any other parameters.
+ * @param state The app state.
+ */
+function buildUrl(state: UrlState): string {
+  const url = new URL(window.location.href);
+  const params = url.searchParams;
+  const set = (name: string, value: string | null) => {
+    if (value) {
+      params.set(name, value);
+    } else {
+      params.delete(name);
+    }
+  };
+  set('q', state.query.trim() || null);
+  set('stall', state.stallId);
+  set(
+    'mag',
+    state.magnifier
+      ? `${state.magnifier.x.toFixed(1)},${state.magnifier.y.toFixed(1)}`
+      : null,
+  );
+  return url.toString();
+}
+
+/**
+ * Returns the modal depth of the current history entry.
+ */
+function getModalDepth(): number {
+  return (history.state as HistoryEntryState | null)?.modalDepth ?? 0;
+}
+
+/**
+ * Keeps the URL in sync with the app state and restores the state on Back/Forward.
+ * Searching and moving the magnifier replace the current entry, while every stall
+ * opened in the modal gets its own entry: Back steps through the visited stalls
+ * and then closes the modal, and closing the modal returns to the entry it was
+ * opened from.
+ * @param getState Returns the app's current state.
+ * @param restoreState Applies a state read from the URL, e.g. after Back.
+ * @returns Functions to call when the state changes.
+ */
+export function createHistorySync(
+  getState: () => UrlState,
+  restoreState: (state: UrlState) => void,
+) {
+  // Set while a state from the URL is being applied, so it isn't written back.
+  let isRestoring = false;
+
+  /**
+   * Writes the current state to the URL.
+   * @param mode Whether to add a history entry or replace the current one.
+   * @param modalDepth The modal depth to store with the entry.
+   */
+  const write = (mode: 'push' | 'replace', modalDepth: number) => {
+    const entryState: HistoryEntryState = { modalDepth };
+    const url = buildUrl(getState());
+    if (mode === 'push') {
+      history.pushState(entryState, '', url);
+    } else {
+      history.replaceState(entryState, '', url);
+    }
+  };
+
+  window.addEventListener('popstate', () => {
+    isRestoring = true;
+    try {
+      restoreState(readUrlState(window.location.search));
+    } finally {
+      isRestoring = false;
+    }
+  });
+
+  return {
+    /** Records a change that doesn't get its own history entry (search, magnifier). */
+    replace: () => {
+      if (!isRestoring) write('replace', getModalDepth());
+    },
+    /**
+     * Records that a stall was opened in the modal.
+     * @param stallId The stall now shown.
+     */
+    modalOpened: (stallId: string) => {
+      if (isRestoring) return;
+      // Re-opening the same stall (e.g. after a data refresh) isn't a new step.
+      if (readUrlState(window.location.search).stallId === stallId) {
+        write('replace', getModalDepth());
+      } else {
+        write('push', getModalDepth() + 1);
+      }
+    },
+    /** Records that the modal was closed. */
+    modalClosed: () => {
+      if (isRestoring) return;
+      const depth = getModalDepth();
+      if (depth > 0) {
+        // Go back to where the modal was opened from, rather than adding an entry.
+        history.go(-depth);
+      } else {
+        // The modal was opened from a shared link: drop the stall from the URL.
+        write('replace', 0);
+      }
+    },
+  };
+}
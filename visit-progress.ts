@@ -0,0 +1,113 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { formatSnapshotTime } from './snapshot-cache.ts';
+import { formatStallLabel } from './stall-id.ts';
+import type { StallData } from './types.ts';
+import {
+  getVisitLog,
+  getVisitStatuses,
+  visitStatuses,
+  visitStatusLabels,
+} from './visit-status.ts';
+import type { VisitStatus } from './visit-status.ts';
+
+// The statuses that mean the stall was reached, whatever came of it.
+const REACHED_STATUSES = new Set<VisitStatus>([
+  'visited',
+  'purchased',
+  'sold-out',
+]);
+
+/** The elements of the visit progress panel. */
+export interface VisitProgressElements {
+  /** The panel; hidden until a status is set. */
+  container: HTMLElement;
+  /** The headline, e.g. "已逛 12 / 30". */
+  text: HTMLElement;
+  bar: HTMLProgressElement;
+  /** The number of stalls per status. */
+  breakdown: HTMLElement;
+  /** Every status change, newest first. */
+  log: HTMLElement;
+}
+
+/** The public API of the visit progress panel. */
+export interface VisitProgressController {
+  /** Re-renders the panel after a status changed or the stalls were refreshed. */
+  render: () => void;
+}
+
+/**
+ * Creates the visit progress panel: how many of the stalls given a status have been
+ * reached, a count per status, and the log of every change with its time, for
+ * reviewing the day afterwards.
+ * @param elements The panel's elements.
+ * @param getStalls Returns the stalls currently on the map.
+ * @param onSelect Called when a stall in the log is chosen.
+ * @returns A controller to re-render the panel with.
+ */
+export function createVisitProgress(
+  elements: VisitProgressElements,
+  getStalls: () => StallData[],
+  onSelect: (stallId: string) => void,
+): VisitProgressController {
+  elements.log.addEventListener('click', (e) => {
+    const item = (e.target as HTMLElement).closest(
+      '.visit-log-entry',
+    ) as HTMLElement | null;
+    if (item?.dataset.stallId) onSelect(item.dataset.stallId);
+  });
+
+  const render = () => {
+    const stallsById = new Map(getStalls().map((s) => [s.id, s]));
+    // Stalls dropped from the data since their status was set no longer count.
+    const statuses = [...getVisitStatuses()]
+      .filter(([id]) => stallsById.has(id))
+      .map(([, status]) => status);
+    const log = getVisitLog();
+    elements.container.classList.toggle('hidden', log.length === 0);
+
+    const reached = statuses.filter((s) => REACHED_STATUSES.has(s)).length;
+    elements.text.textContent = `逛攤進度：已逛 ${reached} / ${statuses.length}`;
+    elements.bar.max = Math.max(statuses.length, 1);
+    elements.bar.value = reached;
+
+    elements.breakdown.textContent = visitStatuses
+      .map(
+        (status) =>
+          `${visitStatusLabels[status]} ${
+            statuses.filter((s) => s === status).length
+          }`,
+      )
+      .join(' · ');
+
+    const items = log.reverse().map(({ stallId, status, at }) => {
+      const stall = stallsById.get(stallId);
+      const item = document.createElement('li');
+      item.className = 'visit-log-entry';
+      if (stall) item.dataset.stallId = stallId;
+
+      const time = document.createElement('time');
+      time.className = 'visit-log-time';
+      time.dateTime = new Date(at).toISOString();
+      time.textContent = formatSnapshotTime(at);
+
+      const id = document.createElement('span');
+      id.className = 'visit-log-id';
+      id.textContent = stall ? formatStallLabel(stall) : stallId;
+
+      const change = document.createElement('span');
+      change.className = 'visit-log-status';
+      change.textContent = status ? visitStatusLabels[status] : '清除狀態';
+
+      item.append(time, id, change);
+      return item;
+    });
+    elements.log.replaceChildren(...items);
+  };
+
+  return { render };
+}
@@ -0,0 +1,138 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { activeEvent } from './event-config.ts';
+
+/** How far the user has got with a stall on the day. */
+export type VisitStatus = 'planned' | 'visited' | 'purchased' | 'sold-out';
+
+/** The statuses in the order they're offered, roughly the order they happen in. */
+export const visitStatuses: VisitStatus[] = [
+  'planned',
+  'visited',
+  'purchased',
+  'sold-out',
+];
+
+/** The label shown for each status. */
+export const visitStatusLabels: Record<VisitStatus, string> = {
+  planned: '預計前往',
+  visited: '已逛',
+  purchased: '已購買',
+  'sold-out': '已完售',
+};
+
+/** One change of a stall's status, as kept in the log. */
+export interface VisitStatusChange {
+  stallId: string;
+  /** The new status, or null when it was cleared. */
+  status: VisitStatus | null;
+  /** When the change was made, in milliseconds since the epoch. */
+  at: number;
+}
+
+// The log is kept per event, since stall IDs are reused from one event to the next.
+const STORAGE_KEY = `visit-log:${activeEvent.id}`;
+
+/**
+ * Returns true if a stored value is a well-formed log entry.
+ * @param value The value read from storage.
+ */
+function isVisitStatusChange(value: unknown): value is VisitStatusChange {
+  const change = value as VisitStatusChange;
+  return (
+    typeof change?.stallId === 'string' &&
+    typeof change.at === 'number' &&
+    (change.status === null || visitStatuses.includes(change.status))
+  );
+}
+
+/**
+ * Reads the saved log. Storage can be unavailable (e.g. in private browsing), in
+ * which case the log starts empty and lasts for the visit.
+ * @returns The changes, oldest first.
+ */
+function loadVisitLog(): VisitStatusChange[] {
+  try {
+    const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]');
+    return Array.isArray(saved) ? saved.filter(isVisitStatusChange) : [];
+  } catch (error) {
+    console.warn('Could not load the visit log:', error);
+    return [];
+  }
+}
+
+/**
+ * Every status change, oldest first. Only the log is stored; the current statuses
+ * are replayed from it, so the day can be reviewed afterwards.
+ */
+const visitLog = loadVisitLog();
+
+/** The current status of every stall that has one. */
+const statusesByStallId = new Map<string, VisitStatus>();
+visitLog.forEach(({ stallId, status }) => {
+  if (status) {
+    statusesByStallId.set(stallId, status);
+  } else {
+    statusesByStallId.delete(stallId);
+  }
+});
+
+/** Saves the log. Failing to is not fatal; it still lasts for the visit. */
+function saveVisitLog() {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(visitLog));
+  } catch (error) {
+    console.warn('Could not save the visit log:', error);
+  }
+}
+
+/**
+ * Returns a stall's current status.
+ * @param stallId The stall's ID.
+ * @returns The status, or null if none was set.
+ */
+export function getVisitStatus(stallId: string): VisitStatus | null {
+  return statusesByStallId.get(stallId) ?? null;
+}
+
+/** Returns the current status of every stall that has one. */
+export function getVisitStatuses(): Map<string, VisitStatus> {
+  return new Map(statusesByStallId);
+}
+
+/** Returns every status change, oldest first. */
+export function getVisitLog(): VisitStatusChange[] {
+  return [...visitLog];
+}
+
+/**
+ * Sets a stall's status, logging the change with the current time.
+ * @param stallId The stall's ID.
+ * @param status The new status, or null to clear it.
+ * @returns True if the status changed.
+ */
+export function setVisitStatus(
+  stallId: string,
+  status: VisitStatus | null,
+): boolean {
+  if (getVisitStatus(stallId) === status) return false;
+  if (status) {
+    statusesByStallId.set(stallId, status);
+  } else {
+    statusesByStallId.delete(stallId);
+  }
+  visitLog.push({ stallId, status, at: Date.now() });
+  saveVisitLog();
+  return true;
+}
+
+/**
+ * Returns the map class for a status, e.g. `is-sold-out`.
+ * @param status The status.
+ */
+export function getVisitStatusClass(status: VisitStatus): string {
+  return `is-${status}`;
+}
@@ -0,0 +1,19 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  /** The ID of the event to show when `?event=` is not given. Defaults to the latest event. */
+  readonly VITE_EVENT_ID?: string;
+  /** Stall data source spec, e.g. `csv:<url>`, `json:<url>`, `file` or `fixture`. */
+  readonly VITE_STALL_DATA_SOURCE?: string;
+  /** Background refresh interval for stall data, in seconds. Unset or 0 disables it. */
+  readonly VITE_REFRESH_INTERVAL_SECONDS?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
+
+declare module 'virtual:asset-manifest' {
+  /** The image file names of each `assets/<year>/` directory, keyed by directory path. */
+  export const assetManifest: Record<string, string[]>;
+}
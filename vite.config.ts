@@ -1,5 +1,45 @@
+import fs from 'fs';
 import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
+import type { Plugin } from 'vite';
+import { viteStaticCopy } from 'vite-plugin-static-copy';
+
+const ASSET_MANIFEST_ID = 'virtual:asset-manifest';
+const IMAGE_FILE_PATTERN = /\.(jpe?g|png|webp|gif)$/i;
+
+/**
+ * Exposes the image file names of every `assets/<year>/` directory as the
+ * `virtual:asset-manifest` module, so stalls can be matched to their official
+ * images without listing them in the sheet.
+ */
+function assetManifestPlugin(): Plugin {
+  const resolvedId = `\0${ASSET_MANIFEST_ID}`;
+  const assetsDir = path.resolve(__dirname, 'assets');
+
+  return {
+    name: 'asset-manifest',
+    resolveId(id) {
+      return id === ASSET_MANIFEST_ID ? resolvedId : undefined;
+    },
+    load(id) {
+      if (id !== resolvedId) return undefined;
+
+      const manifest: Record<string, string[]> = {};
+      fs.readdirSync(assetsDir, { withFileTypes: true })
+        .filter((entry) => entry.isDirectory())
+        .forEach((entry) => {
+          const dir = path.join(assetsDir, entry.name);
+          this.addWatchFile(dir);
+          manifest[`assets/${entry.name}/`] = fs
+            .readdirSync(dir)
+            .filter((file) => IMAGE_FILE_PATTERN.test(file))
+            .sort();
+        });
+
+      return `export const assetManifest = ${JSON.stringify(manifest)};`;
+    },
+  };
+}
 
 export default defineConfig(({ mode }) => {
   const env = loadEnv(mode, '.', '');
@@ -10,6 +50,13 @@ export default defineConfig(({ mode }) => {
       'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
       'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
     },
+    plugins: [
+      assetManifestPlugin(),
+      // Ship a local copy of the event assets, used when the CDN fails.
+      viteStaticCopy({
+        targets: [{ src: 'assets/[0-9]*', dest: 'assets' }],
+      }),
+    ],
     resolve: {
       alias: {
         '@': path.resolve(__dirname, '.'),